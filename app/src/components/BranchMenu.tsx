@@ -0,0 +1,240 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Button from './ui/Button';
+import { BranchInfo, PullRequestInfo } from '@/types';
+import { useNotification } from '@/contexts/NotificationContext';
+
+interface BranchMenuProps {
+  repoName: string;
+  suggestedBranch?: string; // Prefilled name for a new branch, e.g. draft/<slug> in the editor
+  canSwitch?: boolean; // False while there are unsaved edits that a switch would lose
+  onBranchChange?: () => void;
+}
+
+const inputClassName = 'w-full border rounded-md px-2 py-1.5 text-sm border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 focus:outline-none';
+
+/**
+ * Current branch of a repository, with a dropdown to switch or create branches and open a pull request
+ */
+const BranchMenu: React.FC<BranchMenuProps> = ({ repoName, suggestedBranch = '', canSwitch = true, onBranchChange }) => {
+  const { showNotification } = useNotification();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [branches, setBranches] = useState<BranchInfo[]>([]);
+  const [defaultBranch, setDefaultBranch] = useState<string | null>(null);
+  const [pullRequestsEnabled, setPullRequestsEnabled] = useState(false);
+  const [newBranch, setNewBranch] = useState(suggestedBranch);
+  const [pullRequestTitle, setPullRequestTitle] = useState('');
+  const [pullRequest, setPullRequest] = useState<PullRequestInfo | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const current = branches.find(branch => branch.current);
+
+  const loadBranches = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/repositories/branches?repoName=${encodeURIComponent(repoName)}`);
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        setBranches(data.branches);
+        setDefaultBranch(data.defaultBranch);
+        setPullRequestsEnabled(data.pullRequestsEnabled);
+      }
+    } catch (err) {
+      console.error('Failed to load branches:', err);
+    }
+  }, [repoName, showNotification]);
+
+  useEffect(() => {
+    loadBranches();
+  }, [loadBranches]);
+
+  useEffect(() => {
+    setNewBranch(suggestedBranch);
+  }, [suggestedBranch]);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // POST to a repositories endpoint; returns the response data, or null after reporting the error
+  const post = async (endpoint: string, body: Record<string, unknown>) => {
+    try {
+      setBusy(true);
+      const response = await fetch(`/api/repositories/${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName, ...body }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+        return null;
+      }
+      return data;
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Branch operation failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSwitch = async (branch: BranchInfo) => {
+    if (branch.current) return;
+    const data = await post('checkout', { branch: branch.name });
+    if (data) {
+      showNotification('success', data.message);
+      setPullRequest(null);
+      setOpen(false);
+      await loadBranches();
+      onBranchChange?.();
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBranch.trim()) return;
+    const data = await post('branches', { name: newBranch.trim() });
+    if (data) {
+      showNotification('success', data.message);
+      setPullRequest(null);
+      setOpen(false);
+      await loadBranches();
+      onBranchChange?.();
+    }
+  };
+
+  const handleOpenPullRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pullRequestTitle.trim()) return;
+    const data = await post('pull-request', { title: pullRequestTitle.trim() });
+    if (data) {
+      setPullRequest(data.pullRequest);
+      showNotification('success', `Opened pull request #${data.pullRequest.number}`);
+      onBranchChange?.();
+    }
+  };
+
+  if (!current) return null;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          // Pick up branches fetched or created since the menu was last opened
+          if (!open) {
+            loadBranches();
+          }
+          setOpen(!open);
+        }}
+        className="flex items-center px-2 py-1 rounded-md text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        title="Switch or create a branch"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" />
+        </svg>
+        <span className="font-mono max-w-[12rem] truncate">{current.name}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-40 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg p-3 space-y-3">
+          <div>
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Branches</p>
+            {!canSwitch && (
+              <p className="text-xs text-amber-600 dark:text-amber-400 mb-1">Save your changes before switching branches.</p>
+            )}
+            <ul className="max-h-48 overflow-y-auto">
+              {branches.map(branch => (
+                <li key={branch.name}>
+                  <button
+                    type="button"
+                    onClick={() => handleSwitch(branch)}
+                    disabled={busy || (!canSwitch && !branch.current)}
+                    className={`w-full flex items-center justify-between px-2 py-1 rounded text-sm text-left font-mono disabled:opacity-60 ${
+                      branch.current
+                        ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                        : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <span className="truncate">{branch.name}</span>
+                    <span className="ml-2 flex-shrink-0 text-xs font-sans text-gray-400">
+                      {branch.current ? 'current' : branch.remoteOnly ? 'remote' : branch.name === defaultBranch ? 'default' : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <form onSubmit={handleCreate} className="border-t dark:border-gray-700 pt-3">
+            <label htmlFor="newBranch" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+              New branch from {current.name}
+            </label>
+            <div className="flex space-x-2">
+              <input
+                id="newBranch"
+                type="text"
+                value={newBranch}
+                onChange={(e) => setNewBranch(e.target.value)}
+                placeholder="draft/my-post"
+                className={`${inputClassName} font-mono`}
+              />
+              <Button type="submit" size="sm" variant="primary" disabled={busy || !newBranch.trim()}>
+                Create
+              </Button>
+            </div>
+          </form>
+
+          {pullRequestsEnabled && defaultBranch && current.name !== defaultBranch && (
+            <form onSubmit={handleOpenPullRequest} className="border-t dark:border-gray-700 pt-3">
+              <label htmlFor="pullRequestTitle" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                Pull request into {defaultBranch}
+              </label>
+              <input
+                id="pullRequestTitle"
+                type="text"
+                value={pullRequestTitle}
+                onChange={(e) => setPullRequestTitle(e.target.value)}
+                placeholder="Title"
+                className={`${inputClassName} mb-2`}
+              />
+              <Button type="submit" size="sm" variant="outline" fullWidth isLoading={busy} disabled={busy || !pullRequestTitle.trim()}>
+                Push &amp; Open Pull Request
+              </Button>
+              {pullRequest && (
+                <a
+                  href={pullRequest.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block mt-2 text-sm text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+                >
+                  View pull request #{pullRequest.number}
+                </a>
+              )}
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BranchMenu;
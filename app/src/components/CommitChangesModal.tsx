@@ -1,30 +1,194 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
 import Button from './ui/Button';
+import FileDiffView, { DiffViewMode } from './FileDiffView';
+import { ChangedFile, FileDiff } from '@/types';
+import { isImagePath } from '@/utils/fileTypes';
+import { isPostFile } from '@/utils/slugUtils';
 
 interface CommitChangesModalProps {
+  repoName: string;
+  slug?: string; // Only list the changes of this post
+  defaultMessage?: string;
   onClose: () => void;
-  onCommit: (message: string) => void;
+  onCommit: (message: string, files: string[], push: boolean) => void; // push: push right after committing
   loading: boolean;
 }
 
+const STATUS_BADGES: Record<ChangedFile['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  modified: { label: 'M', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  deleted: { label: 'D', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  renamed: { label: 'R', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+};
+
+// Paths to pass to git for a file; a rename also needs its old path so the removal is committed
+const commitPaths = (file: ChangedFile) => (file.from ? [file.from, file.path] : [file.path]);
+
 const CommitChangesModal: React.FC<CommitChangesModalProps> = ({
+  repoName,
+  slug,
+  defaultMessage = '',
   onClose,
   onCommit,
   loading,
 }) => {
-  const [message, setMessage] = useState('');
+  const [message, setMessage] = useState(defaultMessage);
+  const [files, setFiles] = useState<ChangedFile[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [filesLoading, setFilesLoading] = useState(true);
+  const [filesError, setFilesError] = useState<string | null>(null);
+  const [activeFile, setActiveFile] = useState<ChangedFile | null>(null);
+  const [diff, setDiff] = useState<FileDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [diffMode, setDiffMode] = useState<DiffViewMode>('unified');
+  const [pushAfterCommit, setPushAfterCommit] = useState(true);
+
+  // Load the changed files when the modal opens
+  useEffect(() => {
+    const fetchFiles = async () => {
+      try {
+        setFilesLoading(true);
+        const response = await fetch(`/api/repositories/status?repoName=${encodeURIComponent(repoName)}`);
+        const data = await response.json();
+
+        if (data.error) {
+          setFilesError(data.error);
+        } else {
+          const changedFiles: ChangedFile[] = slug
+            ? data.files.filter((file: ChangedFile) => isPostFile(file.path, slug) || (file.from && isPostFile(file.from, slug)))
+            : data.files;
+          setFiles(changedFiles);
+          setActiveFile(changedFiles[0] || null);
+        }
+      } catch (err) {
+        setFilesError((err as Error).message || 'Failed to load changed files');
+      } finally {
+        setFilesLoading(false);
+      }
+    };
+
+    fetchFiles();
+  }, [repoName, slug]);
+
+  // Load the diff of the selected text file
+  useEffect(() => {
+    setDiff(null);
+    if (!activeFile || isImagePath(activeFile.path)) return;
+
+    let cancelled = false;
+    const fetchDiff = async () => {
+      try {
+        setDiffLoading(true);
+        const params = new URLSearchParams({ repoName, path: activeFile.path });
+        if (activeFile.from) {
+          params.set('from', activeFile.from);
+        }
+        const response = await fetch(`/api/repositories/diff?${params}`);
+        const data = await response.json();
+
+        if (!cancelled && data.diff) {
+          setDiff(data.diff);
+        }
+      } catch (err) {
+        console.error('Failed to load diff:', err);
+      } finally {
+        if (!cancelled) {
+          setDiffLoading(false);
+        }
+      }
+    };
+
+    fetchDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [repoName, activeFile]);
+
+  const includedFiles = files.filter(file => !excluded.has(file.path));
+
+  const toggleFile = (file: ChangedFile) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(file.path)) {
+        next.delete(file.path);
+      } else {
+        next.add(file.path);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setExcluded(includedFiles.length === files.length ? new Set(files.map(file => file.path)) : new Set());
+  };
+
+  const commit = (push: boolean) => {
+    if (!message.trim() || includedFiles.length === 0) return;
+    setPushAfterCommit(push);
+    onCommit(message, includedFiles.flatMap(commitPaths), push);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim()) return;
-    onCommit(message);
+    commit(true);
+  };
+
+  // URL of an image as of the last commit (ref=HEAD) or in the working tree
+  const fileUrl = (filePath: string, ref?: 'HEAD') => {
+    const params = new URLSearchParams({ repoName, path: filePath });
+    if (ref) {
+      params.set('ref', ref);
+    }
+    return `/api/repositories/file?${params}`;
+  };
+
+  const renderPreview = () => {
+    if (!activeFile) return null;
+
+    if (isImagePath(activeFile.path)) {
+      const before = activeFile.status === 'added' ? null : fileUrl(activeFile.from || activeFile.path, 'HEAD');
+      const after = activeFile.status === 'deleted' ? null : fileUrl(activeFile.path);
+      return (
+        <div className="grid grid-cols-2 gap-4 p-3">
+          {[{ title: 'Before', url: before }, { title: 'After', url: after }].map(({ title, url }) => (
+            <div key={title}>
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{title}</p>
+              {/* Served as is: the working tree version changes as the post is edited */}
+              {url ? (
+                <div className="relative h-48 rounded border dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+                  <Image
+                    src={url}
+                    alt={`${title}: ${activeFile.path}`}
+                    fill
+                    className="object-contain"
+                    sizes="33vw"
+                    unoptimized
+                  />
+                </div>
+              ) : (
+                <div className="h-48 flex items-center justify-center rounded border border-dashed dark:border-gray-700 text-xs text-gray-400">
+                  {title === 'Before' ? 'New image' : 'Deleted'}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (diffLoading) {
+      return <p className="text-sm text-gray-500 dark:text-gray-400 p-3">Loading diff...</p>;
+    }
+
+    return diff ? <FileDiffView diff={diff} mode={diffMode} /> : null;
   };
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center">
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md p-6 border dark:border-gray-700">
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col p-6 border dark:border-gray-700">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Commit Changes</h2>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">{slug ? 'Commit This Post' : 'Commit Changes'}</h2>
           <button
             onClick={onClose}
             className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -35,7 +199,92 @@ const CommitChangesModal: React.FC<CommitChangesModalProps> = ({
             </svg>
           </button>
         </div>
-        
+
+        {filesError && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            <p>{filesError}</p>
+          </div>
+        )}
+
+        {filesLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Loading changes...</p>
+        ) : files.length === 0 && !filesError ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {slug ? 'This post has no uncommitted changes.' : 'There are no changes to commit.'}
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            {/* Changed files */}
+            <div className="flex flex-col min-h-0 border rounded-lg dark:border-gray-700">
+              <label className="flex items-center px-3 py-2 border-b dark:border-gray-700 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includedFiles.length === files.length}
+                  onChange={toggleAll}
+                  className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700"
+                />
+                {includedFiles.length} of {files.length} files selected
+              </label>
+              <ul className="overflow-y-auto max-h-40 md:max-h-none">
+                {files.map(file => {
+                  const badge = STATUS_BADGES[file.status];
+                  return (
+                    <li
+                      key={file.path}
+                      className={`flex items-center px-3 py-1.5 text-sm cursor-pointer ${
+                        activeFile?.path === file.path
+                          ? 'bg-primary-50 dark:bg-primary-900/20'
+                          : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                      }`}
+                      onClick={() => setActiveFile(file)}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!excluded.has(file.path)}
+                        onChange={() => toggleFile(file)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700"
+                      />
+                      <span className={`mr-2 px-1.5 rounded text-xs font-mono ${badge.className}`}>{badge.label}</span>
+                      <span className="truncate text-gray-700 dark:text-gray-200" title={file.from ? `${file.from} → ${file.path}` : file.path}>
+                        {file.path}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
+            {/* Diff of the selected file */}
+            <div className="md:col-span-2 flex flex-col min-h-0 border rounded-lg dark:border-gray-700">
+              <div className="flex items-center justify-between px-3 py-2 border-b dark:border-gray-700">
+                <p className="text-sm font-mono text-gray-700 dark:text-gray-200 truncate">{activeFile?.path}</p>
+                {activeFile && !isImagePath(activeFile.path) && (
+                  <div className="flex space-x-1 flex-shrink-0">
+                    {(['unified', 'split'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setDiffMode(mode)}
+                        className={`px-2 py-0.5 text-xs font-medium rounded-md transition-colors duration-200 ${
+                          diffMode === mode
+                            ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        {mode === 'unified' ? 'Unified' : 'Side by side'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 overflow-auto min-h-[12rem]">
+                {renderPreview()}
+              </div>
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit}>
           <div className="mb-4">
             <label htmlFor="commitMessage" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -45,13 +294,13 @@ const CommitChangesModal: React.FC<CommitChangesModalProps> = ({
               id="commitMessage"
               value={message}
               onChange={(e) => setMessage(e.target.value)}
-              className="w-full h-24 resize-none border rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all duration-200 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:placeholder-gray-400"
+              className="w-full h-20 resize-none border rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all duration-200 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:placeholder-gray-400"
               placeholder="Describe the changes you&apos;ve made..."
               required
               disabled={loading}
             />
           </div>
-          
+
           <div className="flex justify-end space-x-3">
             <Button
               type="button"
@@ -62,15 +311,25 @@ const CommitChangesModal: React.FC<CommitChangesModalProps> = ({
             >
               Cancel
             </Button>
+            <Button
+              type="button"
+              onClick={() => commit(false)}
+              variant="outline"
+              disabled={loading || !message.trim() || includedFiles.length === 0}
+              isLoading={loading && !pushAfterCommit}
+              size="md"
+            >
+              {loading && !pushAfterCommit ? 'Committing...' : 'Commit'}
+            </Button>
             <Button
               type="submit"
               variant="primary"
-              disabled={loading || !message.trim()}
-              isLoading={loading}
+              disabled={loading || !message.trim() || includedFiles.length === 0}
+              isLoading={loading && pushAfterCommit}
               size="md"
               className="shadow-md hover:shadow-lg transition-shadow duration-300"
             >
-              {loading ? 'Committing...' : 'Commit & Push'}
+              {loading && pushAfterCommit ? 'Committing...' : 'Commit & Push'}
             </Button>
           </div>
         </form>
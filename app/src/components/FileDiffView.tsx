@@ -0,0 +1,189 @@
+import React, { useMemo } from 'react';
+import { diffIndices } from 'node-diff3';
+import { FileDiff } from '@/types';
+
+export type DiffViewMode = 'unified' | 'split';
+
+interface FileDiffViewProps {
+  diff: FileDiff;
+  mode: DiffViewMode;
+}
+
+interface DiffLine {
+  number: number;
+  text: string;
+}
+
+// A run of unchanged lines, or lines removed from the committed version and added in their place
+type DiffBlock =
+  | { type: 'same'; lines: { oldNumber: number; newNumber: number; text: string }[] }
+  | { type: 'changed'; removed: DiffLine[]; added: DiffLine[] };
+
+// Unchanged lines shown around each change; longer unchanged runs are collapsed
+const CONTEXT_LINES = 3;
+
+const splitLines = (content: string) => (content === '' ? [] : content.replace(/\n$/, '').split('\n'));
+
+const buildBlocks = (oldContent: string, newContent: string): DiffBlock[] => {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const blocks: DiffBlock[] = [];
+  // Next unprocessed line in each version (0-based)
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  const pushSame = (count: number) => {
+    if (count <= 0) return;
+    blocks.push({
+      type: 'same',
+      lines: oldLines.slice(oldIndex, oldIndex + count).map((text, i) => ({
+        oldNumber: oldIndex + i + 1,
+        newNumber: newIndex + i + 1,
+        text,
+      })),
+    });
+    oldIndex += count;
+    newIndex += count;
+  };
+
+  diffIndices(oldLines, newLines).forEach(change => {
+    const [oldStart, oldLength] = change.buffer1;
+    const [, newLength] = change.buffer2;
+    pushSame(oldStart - oldIndex);
+    blocks.push({
+      type: 'changed',
+      removed: change.buffer1Content.map((text, i) => ({ number: oldIndex + i + 1, text })),
+      added: change.buffer2Content.map((text, i) => ({ number: newIndex + i + 1, text })),
+    });
+    oldIndex += oldLength;
+    newIndex += newLength;
+  });
+  pushSame(oldLines.length - oldIndex);
+
+  return blocks;
+};
+
+const lineNumberClassName = 'select-none pr-2 text-right text-gray-400 dark:text-gray-500 align-top';
+const removedClassName = 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200';
+const addedClassName = 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200';
+
+const SkippedRow: React.FC<{ count: number }> = ({ count }) => (
+  <tr className="bg-gray-50 dark:bg-gray-900/40 text-gray-500 dark:text-gray-400">
+    <td colSpan={4} className="px-2 py-0.5 italic">
+      ... {count} unchanged {count === 1 ? 'line' : 'lines'} ...
+    </td>
+  </tr>
+);
+
+/**
+ * Line diff between the committed and working tree versions of a text file
+ */
+const FileDiffView: React.FC<FileDiffViewProps> = ({ diff, mode }) => {
+  const blocks = useMemo(() => buildBlocks(diff.oldContent, diff.newContent), [diff]);
+
+  if (!blocks.some(block => block.type === 'changed')) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 p-3">No text changes (only whitespace or file mode changed).</p>;
+  }
+
+  const rows: React.ReactNode[] = [];
+
+  blocks.forEach((block, blockIndex) => {
+    if (block.type === 'same') {
+      // Keep a few lines of context next to the neighbouring changes
+      const keepStart = blockIndex > 0 ? CONTEXT_LINES : 0;
+      const keepEnd = blockIndex < blocks.length - 1 ? CONTEXT_LINES : 0;
+      const collapsed = block.lines.length > keepStart + keepEnd + 1;
+      const visible = collapsed
+        ? [...block.lines.slice(0, keepStart), null, ...block.lines.slice(block.lines.length - keepEnd)]
+        : block.lines;
+
+      visible.forEach((line, lineIndex) => {
+        const key = `${blockIndex}-${lineIndex}`;
+        if (!line) {
+          rows.push(<SkippedRow key={key} count={block.lines.length - keepStart - keepEnd} />);
+        } else if (mode === 'unified') {
+          rows.push(
+            <tr key={key}>
+              <td className={lineNumberClassName}>{line.oldNumber}</td>
+              <td className={lineNumberClassName}>{line.newNumber}</td>
+              <td className="select-none" />
+              <td className="whitespace-pre-wrap break-all">{line.text}</td>
+            </tr>
+          );
+        } else {
+          rows.push(
+            <tr key={key}>
+              <td className={lineNumberClassName}>{line.oldNumber}</td>
+              <td className="whitespace-pre-wrap break-all border-r border-gray-200 dark:border-gray-700">{line.text}</td>
+              <td className={lineNumberClassName}>{line.newNumber}</td>
+              <td className="whitespace-pre-wrap break-all">{line.text}</td>
+            </tr>
+          );
+        }
+      });
+      return;
+    }
+
+    if (mode === 'unified') {
+      block.removed.forEach((line, lineIndex) => {
+        rows.push(
+          <tr key={`${blockIndex}-r${lineIndex}`} className={removedClassName}>
+            <td className={lineNumberClassName}>{line.number}</td>
+            <td className={lineNumberClassName} />
+            <td className="select-none">-</td>
+            <td className="whitespace-pre-wrap break-all">{line.text}</td>
+          </tr>
+        );
+      });
+      block.added.forEach((line, lineIndex) => {
+        rows.push(
+          <tr key={`${blockIndex}-a${lineIndex}`} className={addedClassName}>
+            <td className={lineNumberClassName} />
+            <td className={lineNumberClassName}>{line.number}</td>
+            <td className="select-none">+</td>
+            <td className="whitespace-pre-wrap break-all">{line.text}</td>
+          </tr>
+        );
+      });
+      return;
+    }
+
+    // Side by side: removed lines on the left, their replacements on the right
+    const count = Math.max(block.removed.length, block.added.length);
+    for (let i = 0; i < count; i++) {
+      const removed = block.removed[i];
+      const added = block.added[i];
+      rows.push(
+        <tr key={`${blockIndex}-${i}`}>
+          <td className={`${lineNumberClassName} ${removed ? removedClassName : ''}`}>{removed?.number}</td>
+          <td className={`whitespace-pre-wrap break-all border-r border-gray-200 dark:border-gray-700 ${removed ? removedClassName : ''}`}>{removed?.text}</td>
+          <td className={`${lineNumberClassName} ${added ? addedClassName : ''}`}>{added?.number}</td>
+          <td className={`whitespace-pre-wrap break-all ${added ? addedClassName : ''}`}>{added?.text}</td>
+        </tr>
+      );
+    }
+  });
+
+  return (
+    <table className="w-full table-fixed text-xs font-mono text-gray-800 dark:text-gray-200 border-collapse">
+      {mode === 'unified' ? (
+        <colgroup>
+          <col className="w-10" />
+          <col className="w-10" />
+          <col className="w-4" />
+          <col />
+        </colgroup>
+      ) : (
+        <colgroup>
+          <col className="w-10" />
+          <col />
+          <col className="w-10" />
+          <col />
+        </colgroup>
+      )}
+      <tbody>{rows}</tbody>
+    </table>
+  );
+};
+
+export default FileDiffView;
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from './ui/Button';
+import CredentialFields, { CredentialDraft, toGitCredential } from './CredentialFields';
+import { GitCredentialSummary, Repository } from '@/types';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+import { useNotification } from '@/contexts/NotificationContext';
+
+interface GitCredentialsModalProps {
+  repositories: Repository[];
+  onClose: () => void;
+}
+
+const CREDENTIAL_LABELS: Record<GitCredentialSummary['type'], string> = {
+  'https-token': 'HTTPS token',
+  'ssh-key': 'SSH deploy key',
+};
+
+/**
+ * The stored git credential of each repository, with forms to set, replace or remove them
+ * Secrets never come back from the server; only their type and a hint are shown
+ */
+const GitCredentialsModal: React.FC<GitCredentialsModalProps> = ({ repositories, onClose }) => {
+  const { showNotification } = useNotification();
+  const [credentials, setCredentials] = useState<GitCredentialSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CredentialDraft>({ type: 'https-token', username: '', token: '', privateKey: '' });
+
+  const loadCredentials = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/repositories/credentials');
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        setCredentials(data.credentials);
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to load credentials');
+    } finally {
+      setLoading(false);
+    }
+  }, [showNotification]);
+
+  useEffect(() => {
+    loadCredentials();
+  }, [loadCredentials]);
+
+  // Cloned repositories, plus any credential stored for a repository that hasn't been cloned (yet)
+  const repoNames = Array.from(new Set([
+    ...repositories.map(repo => repo.name),
+    ...credentials.map(credential => credential.repoName),
+  ])).sort();
+
+  const startEditing = (repoName: string) => {
+    const current = credentials.find(credential => credential.repoName === repoName);
+    setDraft({ type: current?.type || 'https-token', username: current?.username || '', token: '', privateKey: '' });
+    setEditing(repoName);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    try {
+      setBusy(true);
+      const response = await fetch('/api/repositories/credentials', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName: editing, credential: toGitCredential(draft) }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        showNotification('success', data.message);
+        setEditing(null);
+        await loadCredentials();
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to save credential');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (repoName: string) => {
+    try {
+      setBusy(true);
+      const response = await fetch(`/api/repositories/credentials?repoName=${encodeURIComponent(repoName)}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        showNotification('success', data.message);
+        await loadCredentials();
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to remove credential');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col p-6 border dark:border-gray-700">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Git Credentials</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+              Tokens and deploy keys used to clone, pull and push each repository. They are stored encrypted on the server.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+            disabled={busy}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading credentials...</p>
+          ) : repoNames.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Clone a repository to give it a credential.</p>
+          ) : (
+            <ul className="divide-y dark:divide-gray-700 border rounded-lg dark:border-gray-700">
+              {repoNames.map(repoName => {
+                const credential = credentials.find(item => item.repoName === repoName);
+                return (
+                  <li key={repoName} className="px-3 py-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{repoName}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {credential
+                            ? [
+                              CREDENTIAL_LABELS[credential.type],
+                              credential.username,
+                              credential.hint,
+                              `updated ${formatDateForDisplay(credential.updatedAt)}`,
+                            ].filter(Boolean).join(' · ')
+                            : 'Server default'}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2 flex-shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => startEditing(repoName)} disabled={busy}>
+                          {credential ? 'Replace' : 'Set'}
+                        </Button>
+                        {credential && (
+                          <Button size="sm" variant="danger" onClick={() => handleRemove(repoName)} disabled={busy}>
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {editing === repoName && (
+                      <form onSubmit={handleSave} className="mt-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-900/40">
+                        <CredentialFields value={draft} onChange={setDraft} idPrefix="credential" allowNone={false} />
+                        <div className="flex justify-end space-x-2 mt-3">
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)} disabled={busy}>
+                            Cancel
+                          </Button>
+                          <Button type="submit" size="sm" variant="primary" isLoading={busy} disabled={busy}>
+                            Save
+                          </Button>
+                        </div>
+                      </form>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GitCredentialsModal;
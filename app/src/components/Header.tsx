@@ -1,14 +1,32 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Link from 'next/link';
 import DarkModeToggle from './DarkModeToggle';
 import Button from './ui/Button';
+import RepoSyncStatus from './RepoSyncStatus';
+import BranchMenu from './BranchMenu';
 
 interface HeaderProps {
   onCommitClick: () => void;
   showCommitButton: boolean;
+  repoName?: string; // Show how far this repository's branch is from its upstream
+  syncRefreshKey?: number;
+  suggestedBranch?: string; // Prefilled name for a new branch
+  canSwitchBranch?: boolean;
+  onBranchChange?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onCommitClick, showCommitButton }) => {
+const Header: React.FC<HeaderProps> = ({
+  onCommitClick,
+  showCommitButton,
+  repoName,
+  syncRefreshKey = 0,
+  suggestedBranch,
+  canSwitchBranch,
+  onBranchChange,
+}) => {
+  // Bumped when the branch changes so the ahead/behind counts follow it
+  const [branchChanges, setBranchChanges] = useState(0);
+
   return (
     <header className="bg-white dark:bg-gray-800 shadow transition-colors">
       <div className="container mx-auto px-4 py-3 flex items-center justify-between">
@@ -19,6 +37,20 @@ const Header: React.FC<HeaderProps> = ({ onCommitClick, showCommitButton }) => {
         </div>
         
         <div className="flex items-center space-x-4">
+          {repoName && (
+            <div className="flex items-center">
+              <BranchMenu
+                repoName={repoName}
+                suggestedBranch={suggestedBranch}
+                canSwitch={canSwitchBranch}
+                onBranchChange={() => {
+                  setBranchChanges(count => count + 1);
+                  onBranchChange?.();
+                }}
+              />
+              <RepoSyncStatus repoName={repoName} refreshKey={syncRefreshKey + branchChanges} />
+            </div>
+          )}
           <DarkModeToggle />
           {showCommitButton && (
             <Button
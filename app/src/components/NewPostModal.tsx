@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import Button from './ui/Button';
+import { slugify, isValidSlug } from '@/utils/slugUtils';
+
+export interface NewPostFormData {
+  title: string;
+  slug: string;
+  author: string;
+  category: string;
+}
+
+interface NewPostModalProps {
+  onClose: () => void;
+  onCreate: (data: NewPostFormData) => void;
+  loading: boolean;
+  error?: string | null;
+}
+
+const NewPostModal: React.FC<NewPostModalProps> = ({
+  onClose,
+  onCreate,
+  loading,
+  error,
+}) => {
+  const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
+  const [author, setAuthor] = useState('');
+  const [category, setCategory] = useState('');
+  // Keep deriving the slug from the title until the user edits the slug by hand
+  const [slugTouched, setSlugTouched] = useState(false);
+
+  const slugError = slug && !isValidSlug(slug)
+    ? 'Use lowercase letters, numbers and hyphens only'
+    : null;
+
+  const handleTitleChange = (value: string) => {
+    setTitle(value);
+    if (!slugTouched) {
+      setSlug(slugify(value));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !slug || slugError) return;
+    onCreate({ title: title.trim(), slug, author: author.trim(), category: category.trim() });
+  };
+
+  const inputClassName = "input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:dark:border-primary-400 focus:dark:ring-primary-400/20 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md p-6 border dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">New Post</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+            disabled={loading}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="mb-3">
+            <label htmlFor="newPostTitle" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Title
+            </label>
+            <input
+              type="text"
+              id="newPostTitle"
+              value={title}
+              onChange={(e) => handleTitleChange(e.target.value)}
+              className={inputClassName}
+              placeholder="My new blog post"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="mb-3">
+            <label htmlFor="newPostSlug" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Slug
+            </label>
+            <input
+              type="text"
+              id="newPostSlug"
+              value={slug}
+              onChange={(e) => {
+                setSlugTouched(true);
+                setSlug(e.target.value);
+              }}
+              className={inputClassName}
+              placeholder="my-new-blog-post"
+              required
+              disabled={loading}
+            />
+            {slugError ? (
+              <p className="mt-1 text-xs text-red-500 dark:text-red-400">{slugError}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-300">
+                Creates posts/{slug || '<slug>'}.mdx and uploads/{slug || '<slug>'}/
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+            <div>
+              <label htmlFor="newPostAuthor" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Author
+              </label>
+              <input
+                type="text"
+                id="newPostAuthor"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                className={inputClassName}
+                placeholder="Default author"
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <label htmlFor="newPostCategory" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Category
+              </label>
+              <input
+                type="text"
+                id="newPostCategory"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className={inputClassName}
+                placeholder="Default category"
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <Button
+              type="button"
+              onClick={onClose}
+              variant="outline"
+              disabled={loading}
+              size="md"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={loading || !title.trim() || !slug || Boolean(slugError)}
+              isLoading={loading}
+              size="md"
+              className="shadow-md hover:shadow-lg transition-shadow duration-300"
+            >
+              {loading ? 'Creating...' : 'Create Post'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NewPostModal;
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter } from 'next/router';
 import ConfirmDialog from './ConfirmDialog';
+import NewPostModal, { NewPostFormData } from './NewPostModal';
+import Button from './ui/Button';
 import { formatDateForDisplay } from '@/utils/dateUtils';
 
 // Define the structure of post data returned from the optimized API
@@ -30,6 +33,7 @@ const PostsList: React.FC<PostsListProps> = ({
   postsPerPage,
   onPageChange,
 }) => {
+  const router = useRouter();
   const [posts, setPosts] = useState<PostCardData[]>([]);
   const [totalPosts, setTotalPosts] = useState(0);
   const [loading, setLoading] = useState(true);
@@ -37,6 +41,9 @@ const PostsList: React.FC<PostsListProps> = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [postToDelete, setPostToDelete] = useState<PostCardData | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showNewPostModal, setShowNewPostModal] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
   // Stable cache-busters for hero images to avoid reload on unrelated re-renders
   const [imageCacheBusters, setImageCacheBusters] = useState<Record<string, number>>({});
   
@@ -70,6 +77,39 @@ const PostsList: React.FC<PostsListProps> = ({
     }
   };
   
+  // Handle post creation - scaffold the post on disk, then open it in the editor
+  const handleCreatePost = async (data: NewPostFormData) => {
+    setIsCreating(true);
+    setCreateError(null);
+    try {
+      const response = await fetch(`/api/posts/${repoName}/${data.slug}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: data.title,
+          author: data.author,
+          category: data.category,
+        }),
+      });
+      
+      const result = await response.json();
+      
+      if (!response.ok || result.error) {
+        setCreateError(result.error || 'Failed to create post');
+        return;
+      }
+      
+      setShowNewPostModal(false);
+      router.push(`/editor/${repoName}/${data.slug}?page=${currentPage}`);
+    } catch (err) {
+      setCreateError((err as Error).message || 'Failed to create post');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+  
   // Show delete confirmation
   const confirmDeletePost = (e: React.MouseEvent, post: PostCardData) => {
     e.preventDefault();
@@ -205,7 +245,23 @@ const PostsList: React.FC<PostsListProps> = ({
 
   return (
     <div className="mb-8">
-      <h2 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Blog Posts</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Blog Posts</h2>
+        <Button
+          onClick={() => {
+            setCreateError(null);
+            setShowNewPostModal(true);
+          }}
+          variant="primary"
+          leftIcon={
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+            </svg>
+          }
+        >
+          New Post
+        </Button>
+      </div>
       
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
@@ -374,6 +430,15 @@ const PostsList: React.FC<PostsListProps> = ({
           )}
         </>
       )}
+      
+      {showNewPostModal && (
+        <NewPostModal
+          onClose={() => setShowNewPostModal(false)}
+          onCreate={handleCreatePost}
+          loading={isCreating}
+          error={createError}
+        />
+      )}
     </div>
   );
 };
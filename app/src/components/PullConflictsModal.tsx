@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from './ui/Button';
+import PostConflictModal from './editor/PostConflictModal';
+import { BlogPost, BlogPostFrontmatter, ConflictVersions } from '@/types';
+import { getPostSlugFromPath } from '@/utils/slugUtils';
+import { useNotification } from '@/contexts/NotificationContext';
+
+interface PullConflictsModalProps {
+  repoName: string;
+  onClose: () => void;
+  onMergeEnded: () => void; // Called once the merge is committed or aborted
+}
+
+// Stand-in for the common ancestor of a post that was added on both sides
+const EMPTY_POST: BlogPost = { frontmatter: {} as BlogPostFrontmatter, content: '', images: [] };
+
+/**
+ * Files left with conflicts by a pull; each one is resolved by merging the post or taking one side,
+ * then the merge is committed (or aborted to go back to how things were before the pull)
+ */
+const PullConflictsModal: React.FC<PullConflictsModalProps> = ({ repoName, onClose, onMergeEnded }) => {
+  const { showNotification } = useNotification();
+  const [files, setFiles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [mergingPost, setMergingPost] = useState<ConflictVersions<BlogPost> | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/repositories/conflicts?repoName=${encodeURIComponent(repoName)}`);
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        setFiles(data.files);
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to load conflicts');
+    } finally {
+      setLoading(false);
+    }
+  }, [repoName, showNotification]);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  const resolve = async (filePath: string, resolution: { take: 'ours' | 'theirs' } | { post: BlogPost }) => {
+    try {
+      setBusy(true);
+      const response = await fetch(`/api/repositories/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName, path: filePath, ...resolution }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        setMergingPost(null);
+        await loadConflicts();
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to resolve conflict');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openPostMerge = async (filePath: string) => {
+    try {
+      setBusy(true);
+      const params = new URLSearchParams({ repoName, path: filePath });
+      const response = await fetch(`/api/repositories/conflicts?${params}`);
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else if (!data.versions.ours || !data.versions.theirs) {
+        showNotification('warning', `${filePath} was deleted on one side. Keep yours or use theirs instead.`);
+      } else {
+        setMergingPost(data.versions);
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to load the conflicting versions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const endMerge = async (action: 'finish' | 'abort') => {
+    try {
+      setBusy(true);
+      const response = await fetch(`/api/repositories/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName, action }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', data.error);
+      } else {
+        showNotification('success', action === 'finish' ? 'Merge committed' : 'Merge aborted, the pull was undone');
+        onMergeEnded();
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to update the merge');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col p-6 border dark:border-gray-700">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Resolve Pull Conflicts</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                The pull merged the remote changes, but these files were changed on both sides.
+                Resolve each one, then finish the merge.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+              disabled={busy}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto mb-4">
+            {loading ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading conflicts...</p>
+            ) : files.length === 0 ? (
+              <p className="text-sm text-green-700 dark:text-green-300">All conflicts are resolved. Finish the merge to commit it.</p>
+            ) : (
+              <ul className="divide-y dark:divide-gray-700 border rounded-lg dark:border-gray-700">
+                {files.map(filePath => {
+                  const slug = getPostSlugFromPath(filePath);
+                  return (
+                    <li key={filePath} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-mono text-gray-800 dark:text-gray-200 truncate" title={filePath}>{filePath}</p>
+                        {slug && <p className="text-xs text-gray-500 dark:text-gray-400">Post: {slug}</p>}
+                      </div>
+                      <div className="flex space-x-2 flex-shrink-0">
+                        {filePath.endsWith('.mdx') && (
+                          <Button size="sm" variant="primary" onClick={() => openPostMerge(filePath)} disabled={busy}>
+                            Merge
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => resolve(filePath, { take: 'ours' })} disabled={busy}>
+                          Keep mine
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => resolve(filePath, { take: 'theirs' })} disabled={busy}>
+                          Use theirs
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-between">
+            <Button type="button" variant="danger" size="md" onClick={() => endMerge('abort')} disabled={busy}>
+              Abort Merge
+            </Button>
+            <div className="flex space-x-3">
+              <Button type="button" variant="outline" size="md" onClick={onClose} disabled={busy}>
+                Later
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                size="md"
+                onClick={() => endMerge('finish')}
+                disabled={busy || loading || files.length > 0}
+                isLoading={busy}
+              >
+                Finish Merge
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {mergingPost && mergingPost.ours && mergingPost.theirs && (
+        <PostConflictModal
+          base={mergingPost.base || EMPTY_POST}
+          theirs={mergingPost.theirs}
+          mine={mergingPost.ours}
+          onResolve={(merged) => resolve(mergingPost.path, { post: merged })}
+          onClose={() => setMergingPost(null)}
+          description="This post was changed both in your local commits and on the remote."
+          theirsLabel="Theirs (remote)"
+          mineLabel="Mine (local)"
+          resolveLabel="Save Merged Post"
+          resolveNote="The merged post is written to the repository and marked as resolved."
+        />
+      )}
+    </>
+  );
+};
+
+export default PullConflictsModal;
@@ -1,29 +1,61 @@
 import React, { useState, useEffect } from 'react';
-import { Repository } from '@/types';
+import { CloneMode, GitProgress, PullOutcome, PullResult, Repository } from '@/types';
 import Button from './ui/Button';
 import ConfirmDialog from './ConfirmDialog';
+import PullConflictsModal from './PullConflictsModal';
+import GitCredentialsModal from './GitCredentialsModal';
+import CredentialFields, { CredentialDraft, EMPTY_CREDENTIAL_DRAFT, toGitCredential } from './CredentialFields';
+import { NotificationType } from './Notification';
+import { useNotification } from '@/contexts/NotificationContext';
 
 interface RepoSelectorProps {
   repositories: Repository[];
   currentRepo: Repository | null;
   onSelectRepo: (repo: Repository | null) => void;
   loading: boolean;
+  onPulled?: (repo: Repository) => void; // Called when a pull or its merge changed the branch
 }
 
+const PULL_NOTIFICATION_TYPES: Record<PullOutcome, NotificationType> = {
+  'up-to-date': 'info',
+  'fast-forward': 'success',
+  merged: 'success',
+  conflicted: 'warning',
+  blocked: 'error',
+};
+
+const CLONE_MODE_OPTIONS: { mode: CloneMode; label: string; description: string }[] = [
+  { mode: 'full', label: 'Full', description: 'All commits and files. Needed for complete history, blame and merges.' },
+  { mode: 'shallow', label: 'Shallow', description: 'Only the most recent commits. Fastest, but older history is missing until you fetch it.' },
+  { mode: 'blobless', label: 'Partial (blobless)', description: 'All commits, with file contents downloaded when they are first needed.' },
+];
+
+const DEFAULT_SHALLOW_DEPTH = 50;
+
 const RepoSelector: React.FC<RepoSelectorProps> = ({
   repositories,
   currentRepo,
   onSelectRepo,
   loading,
+  onPulled,
 }) => {
+  const { showNotification } = useNotification();
   const [showAddNew, setShowAddNew] = useState(false);
   const [newRepoUrl, setNewRepoUrl] = useState('');
   const [newRepoName, setNewRepoName] = useState('');
+  const [cloneMode, setCloneMode] = useState<CloneMode>('full');
+  const [cloneDepth, setCloneDepth] = useState(DEFAULT_SHALLOW_DEPTH);
+  const [cloneCredential, setCloneCredential] = useState<CredentialDraft>(EMPTY_CREDENTIAL_DRAFT);
+  const [showCredentials, setShowCredentials] = useState(false);
   const [cloneLoading, setCloneLoading] = useState(false);
   const [pullingRepos, setPullingRepos] = useState<{[key: string]: boolean}>({});
   const [deletingRepo, setDeletingRepo] = useState<Repository | null>(null);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [conflictRepo, setConflictRepo] = useState<Repository | null>(null);
+  // Progress of "fetch full history" per repository; null until git reports its first stage
+  const [unshallowing, setUnshallowing] = useState<{[key: string]: GitProgress | null}>({});
+  const [unshallowedRepos, setUnshallowedRepos] = useState<{[key: string]: boolean}>({});
 
   useEffect(() => {
     // Auto-extract repo name from URL
@@ -58,6 +90,9 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
         body: JSON.stringify({
           url: newRepoUrl,
           name: newRepoName,
+          mode: cloneMode,
+          ...(cloneMode === 'shallow' ? { depth: cloneDepth } : {}),
+          ...(cloneCredential.type !== 'none' ? { credential: toGitCredential(cloneCredential) } : {}),
         }),
       });
       
@@ -69,6 +104,9 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
         // Reset form and hide it
         setNewRepoUrl('');
         setNewRepoName('');
+        setCloneMode('full');
+        setCloneDepth(DEFAULT_SHALLOW_DEPTH);
+        setCloneCredential(EMPTY_CREDENTIAL_DRAFT);
         setShowAddNew(false);
         setError(null);
         
@@ -103,8 +141,14 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
       if (data.error) {
         setError(data.error);
       } else {
-        // Handle successful pull
-        // Maybe show a notification
+        const result: PullResult = data.result;
+        showNotification(PULL_NOTIFICATION_TYPES[result.outcome], data.message, result.outcome === 'blocked' ? 10000 : undefined);
+        
+        if (result.outcome === 'conflicted') {
+          setConflictRepo(repo);
+        } else if (result.outcome !== 'up-to-date' && result.outcome !== 'blocked') {
+          onPulled?.(repo);
+        }
       }
     } catch (err) {
       setError((err as Error).message || 'Failed to pull repository');
@@ -118,6 +162,61 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
     }
   };
 
+  const handleFetchFullHistory = async (repo: Repository) => {
+    setUnshallowing(prev => ({ ...prev, [repo.name]: null }));
+    
+    try {
+      const response = await fetch(`/api/repositories/unshallow`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName: repo.name }),
+      });
+      
+      if (!response.ok || !response.body) {
+        const data = await response.json();
+        setError(data.error || 'Failed to fetch full history');
+        return;
+      }
+      
+      // The response is a stream of JSON lines: progress events, then "done" or "error"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.type === 'progress') {
+            const { stage, progress, processed, total } = event;
+            setUnshallowing(prev => ({ ...prev, [repo.name]: { stage, progress, processed, total } }));
+          } else if (event.type === 'done') {
+            setUnshallowedRepos(prev => ({ ...prev, [repo.name]: true }));
+            showNotification('success', `${event.message} of ${repo.name}`);
+          } else if (event.type === 'error') {
+            setError(event.error);
+          }
+        }
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to fetch full history');
+    } finally {
+      setUnshallowing(prev => {
+        const newState = { ...prev };
+        delete newState[repo.name];
+        return newState;
+      });
+    }
+  };
+
   const handleDeleteRepo = async () => {
     if (!deletingRepo) return;
     
@@ -161,7 +260,15 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Git Repositories</h2>
         
-        <div>
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => setShowCredentials(true)}
+            variant="ghost"
+            disabled={loading}
+            title="Tokens and deploy keys used to reach each repository's remote"
+          >
+            Credentials
+          </Button>
           {!showAddNew ? (
             <Button
               onClick={() => setShowAddNew(true)}
@@ -203,7 +310,7 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
           
           <div className="mb-3">
             <label htmlFor="repoUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Repository URL (SSH)
+              Repository URL (SSH or HTTPS)
             </label>
             <input
               type="text"
@@ -231,6 +338,49 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
             />
           </div>
           
+          <fieldset className="mb-4">
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              History to download
+            </legend>
+            <div className="space-y-2">
+              {CLONE_MODE_OPTIONS.map(option => (
+                <label key={option.mode} className="flex items-start cursor-pointer">
+                  <input
+                    type="radio"
+                    name="cloneMode"
+                    value={option.mode}
+                    checked={cloneMode === option.mode}
+                    onChange={() => setCloneMode(option.mode)}
+                    className="mt-1 mr-2 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>
+                    <span className="text-sm text-gray-800 dark:text-gray-200">{option.label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {cloneMode === 'shallow' && (
+              <div className="mt-3 flex items-center">
+                <label htmlFor="cloneDepth" className="text-sm text-gray-700 dark:text-gray-300 mr-2">
+                  Commits to fetch
+                </label>
+                <input
+                  type="number"
+                  id="cloneDepth"
+                  min={1}
+                  value={cloneDepth}
+                  onChange={(e) => setCloneDepth(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  className="input w-24 border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-2 py-1 text-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
+                />
+              </div>
+            )}
+          </fieldset>
+          
+          <div className="mb-4">
+            <CredentialFields value={cloneCredential} onChange={setCloneCredential} idPrefix="cloneCredential" />
+          </div>
+          
           <button
             type="submit"
             className="btn btn-primary w-full dark:bg-primary-700 dark:hover:bg-primary-800 dark:text-white py-2 rounded-md flex items-center justify-center transition-all duration-200 mt-2 shadow-sm hover:shadow"
@@ -277,6 +427,21 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
                 <div className="min-w-0 flex-1 overflow-hidden">
                   <h3 className="font-medium text-gray-800 dark:text-white truncate">{repo.name}</h3>
                   <p className="text-xs text-gray-500 dark:text-gray-300 truncate max-w-full">{repo.path}</p>
+                  {repo.name in unshallowing && (
+                    <div className="mt-1 max-w-xs">
+                      <p className="text-xs text-gray-600 dark:text-gray-300">
+                        {unshallowing[repo.name]
+                          ? `Fetching full history: ${unshallowing[repo.name]?.stage} ${unshallowing[repo.name]?.progress}%`
+                          : 'Fetching full history...'}
+                      </p>
+                      <div className="h-1.5 mt-0.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary-500 transition-all duration-200"
+                          style={{ width: `${unshallowing[repo.name]?.progress ?? 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
             </div>
             
@@ -299,6 +464,17 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
                 )}
               </button>
               <div className="flex space-x-1 sm:space-x-2">
+                {repo.isShallow && !unshallowedRepos[repo.name] && (
+                  <Button
+                    onClick={() => handleFetchFullHistory(repo)}
+                    disabled={loading || pullingRepos[repo.name] || repo.name in unshallowing}
+                    variant="ghost"
+                    size="sm"
+                    title="This is a shallow clone. Download the rest of its history"
+                  >
+                    Fetch full history
+                  </Button>
+                )}
                 <Button
                   onClick={() => onSelectRepo(repo)}
                   disabled={loading || pullingRepos[repo.name]}
@@ -312,7 +488,7 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
                     setDeletingRepo(repo);
                     setIsDeleteConfirmOpen(true);
                   }}
-                  disabled={loading || pullingRepos[repo.name]}
+                  disabled={loading || pullingRepos[repo.name] || repo.name in unshallowing}
                   variant="danger"
                   size="sm"
                 >
@@ -325,11 +501,26 @@ const RepoSelector: React.FC<RepoSelectorProps> = ({
       </div>
     )}
       
+      {conflictRepo && (
+        <PullConflictsModal
+          repoName={conflictRepo.name}
+          onClose={() => setConflictRepo(null)}
+          onMergeEnded={() => {
+            onPulled?.(conflictRepo);
+            setConflictRepo(null);
+          }}
+        />
+      )}
+      
+      {showCredentials && (
+        <GitCredentialsModal repositories={repositories} onClose={() => setShowCredentials(false)} />
+      )}
+      
       {/* Delete confirmation dialog */}
       <ConfirmDialog
         isOpen={isDeleteConfirmOpen}
         title="Delete Repository"
-        message={`Are you sure you want to delete the repository '${deletingRepo?.name}'? This will permanently remove the folder from your filesystem.`}
+        message={`Are you sure you want to delete the repository '${deletingRepo?.name}'? This will permanently remove the folder from your filesystem, along with its stored credential.`}
         confirmLabel="Delete"
         cancelLabel="Cancel"
         confirmVariant="danger"
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from './ui/Button';
+import { SyncStatus } from '@/types';
+import { useNotification } from '@/contexts/NotificationContext';
+
+interface RepoSyncStatusProps {
+  repoName: string;
+  refreshKey?: number; // Change to reload the counts, e.g. after a commit
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Number of commits the current branch has to push and to pull, and a button to push
+ */
+const RepoSyncStatus: React.FC<RepoSyncStatusProps> = ({ repoName, refreshKey = 0 }) => {
+  const { showNotification } = useNotification();
+  const [sync, setSync] = useState<SyncStatus | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pushing, setPushing] = useState(false);
+
+  const loadStatus = useCallback(async (fetchRemote: boolean) => {
+    try {
+      setRefreshing(true);
+      const params = new URLSearchParams({ repoName });
+      if (fetchRemote) {
+        params.set('fetch', 'true');
+      }
+      const response = await fetch(`/api/repositories/sync-status?${params}`);
+      const data = await response.json();
+
+      if (data.sync) {
+        setSync(data.sync);
+      }
+    } catch (err) {
+      console.error('Failed to load sync status:', err);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [repoName]);
+
+  // Fetch from the remote when the repository changes; later refreshes only recount local commits
+  useEffect(() => {
+    setSync(null);
+    loadStatus(true);
+  }, [loadStatus]);
+
+  useEffect(() => {
+    if (refreshKey > 0) {
+      loadStatus(false);
+    }
+  }, [refreshKey, loadStatus]);
+
+  const handlePush = async () => {
+    try {
+      setPushing(true);
+      const response = await fetch(`/api/repositories/push`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        showNotification('error', `Push failed: ${data.error}`);
+      } else {
+        showNotification('success', 'Changes pushed');
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to push changes');
+    } finally {
+      setPushing(false);
+      loadStatus(false);
+    }
+  };
+
+  if (!sync) return null;
+
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <button
+        type="button"
+        onClick={() => loadStatus(true)}
+        disabled={refreshing}
+        className="flex items-center px-2 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-60"
+        title={sync.tracking ? `Tracking ${sync.tracking}. Click to fetch from the remote` : 'This branch has no upstream branch'}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 mr-1 ${refreshing ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+        </svg>
+        {sync.tracking ? (
+          <>
+            <span className={sync.ahead > 0 ? 'text-primary-600 dark:text-primary-400 font-medium' : ''} title={`${plural(sync.ahead, 'commit')} to push`}>
+              ↑{sync.ahead}
+            </span>
+            <span className={`ml-1 ${sync.behind > 0 ? 'text-amber-600 dark:text-amber-400 font-medium' : ''}`} title={`${plural(sync.behind, 'commit')} to pull`}>
+              ↓{sync.behind}
+            </span>
+          </>
+        ) : (
+          <span className="text-xs text-gray-400">not pushed yet</span>
+        )}
+      </button>
+      {/* A branch without an upstream is pushed to origin and starts tracking it */}
+      {(sync.ahead > 0 || !sync.tracking) && (
+        <Button
+          onClick={handlePush}
+          variant="outline"
+          size="sm"
+          isLoading={pushing}
+          disabled={pushing}
+        >
+          {pushing ? 'Pushing...' : 'Push'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default RepoSyncStatus;
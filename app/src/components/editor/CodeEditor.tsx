@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { Compartment, EditorState, Prec, Transaction } from '@codemirror/state';
+import {
+  EditorView,
+  KeyBinding,
+  drawSelection,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderExtension,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { highlightSelectionMatches, search, searchKeymap } from '@codemirror/search';
+import {
+  bracketMatching,
+  defaultHighlightStyle,
+  foldGutter,
+  foldKeymap,
+  indentOnInput,
+  syntaxHighlighting,
+} from '@codemirror/language';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { javascript } from '@codemirror/lang-javascript';
+import { languages } from '@codemirror/language-data';
+import { oneDark } from '@codemirror/theme-one-dark';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  darkMode?: boolean;
+  softWrap?: boolean;
+  placeholder?: string;
+  keyBindings?: readonly KeyBinding[]; // Extra shortcuts, taking precedence over the default keymap
+  viewRef?: React.RefObject<EditorView | null>; // Receives the editor view for commands run from outside
+}
+
+// Editor chrome matching the rest of the app; colours come from the light/dark theme extensions
+const baseTheme = EditorView.theme({
+  '&': {
+    height: '600px',
+    fontSize: '0.875rem',
+  },
+  '.cm-scroller': {
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+    lineHeight: '1.6',
+  },
+  '.cm-content': {
+    padding: '1rem 0',
+  },
+  '&.cm-focused': {
+    outline: 'none',
+  },
+});
+
+// MDX = Markdown with JSX tags; fenced code blocks are highlighted by their language
+const mdxLanguage = () =>
+  markdown({
+    base: markdownLanguage,
+    codeLanguages: languages,
+    htmlTagLanguage: javascript({ jsx: true }),
+  });
+
+const themeExtensions = (darkMode: boolean) =>
+  darkMode ? oneDark : syntaxHighlighting(defaultHighlightStyle, { fallback: true });
+
+/**
+ * CodeMirror based editor for MDX content
+ * Line numbers, bracket matching, folding, find/replace (Ctrl+F) and optional soft wrap
+ */
+const CodeEditor: React.FC<CodeEditorProps> = ({
+  value,
+  onChange,
+  darkMode = false,
+  softWrap = true,
+  placeholder = '',
+  keyBindings = [],
+  viewRef: externalViewRef,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  const themeCompartment = useRef(new Compartment());
+  const wrapCompartment = useRef(new Compartment());
+  const initialProps = useRef({ value, darkMode, softWrap, placeholder, keyBindings });
+
+  // Keep the latest callback without recreating the editor
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Create the editor once; the props below are synced through effects
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const initial = initialProps.current;
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: initial.value,
+        extensions: [
+          Prec.high(keymap.of(initial.keyBindings)),
+          lineNumbers(),
+          highlightActiveLineGutter(),
+          highlightSpecialChars(),
+          history(),
+          foldGutter(),
+          drawSelection(),
+          indentOnInput(),
+          bracketMatching(),
+          highlightActiveLine(),
+          highlightSelectionMatches(),
+          search({ top: true }),
+          keymap.of([...defaultKeymap, ...historyKeymap, ...searchKeymap, ...foldKeymap, indentWithTab]),
+          mdxLanguage(),
+          placeholderExtension(initial.placeholder),
+          baseTheme,
+          themeCompartment.current.of(themeExtensions(initial.darkMode)),
+          wrapCompartment.current.of(initial.softWrap ? EditorView.lineWrapping : []),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    if (externalViewRef) {
+      externalViewRef.current = view;
+    }
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+      if (externalViewRef) {
+        externalViewRef.current = null;
+      }
+    };
+  }, [externalViewRef]);
+
+  // Replace the document when the content changes from outside the editor (e.g. a post was reloaded)
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && value !== view.state.doc.toString()) {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: value },
+        annotations: Transaction.addToHistory.of(false),
+      });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: themeCompartment.current.reconfigure(themeExtensions(darkMode)),
+    });
+  }, [darkMode]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: wrapCompartment.current.reconfigure(softWrap ? EditorView.lineWrapping : []),
+    });
+  }, [softWrap]);
+
+  return <div ref={containerRef} className="text-left" />;
+};
+
+export default CodeEditor;
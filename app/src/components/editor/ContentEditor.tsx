@@ -1,44 +1,99 @@
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import { EditorView } from '@codemirror/view';
+import CodeEditor from './CodeEditor';
+import FormattingToolbar from './FormattingToolbar';
+import UploadedImagePicker from './UploadedImagePicker';
+import { createFormattingKeymap, insertImage } from './markdownCommands';
+import { useTheme } from '@/contexts/ThemeContext';
 
 interface ContentEditorProps {
   content: string;
   onChange: (content: string) => void;
+  repoName?: string; // Together with slug, enables inserting images from the post's uploads
+  slug?: string;
+  viewRef?: React.RefObject<EditorView | null>; // Receives the editor view, e.g. for scroll sync
 }
 
 const ContentEditor: React.FC<ContentEditorProps> = ({
   content,
   onChange,
+  repoName,
+  slug,
+  viewRef,
 }) => {
-  // Handle content changes
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    onChange(e.target.value);
-  };
+  const { theme } = useTheme();
+  const [softWrap, setSoftWrap] = useState(true);
+  const [showImagePicker, setShowImagePicker] = useState(false);
+  const internalViewRef = useRef<EditorView | null>(null);
+  const editorViewRef = viewRef || internalViewRef;
+  const canInsertImages = Boolean(repoName && slug);
+
+  // The editor reads its shortcuts once, so the image shortcut goes through a stable callback
+  const canInsertImagesRef = useRef(canInsertImages);
+  canInsertImagesRef.current = canInsertImages;
+  const formattingKeymap = useMemo(() => createFormattingKeymap(() => {
+    if (canInsertImagesRef.current) {
+      setShowImagePicker(true);
+    }
+  }), []);
 
-  // No rich editor mode needed
+  const handleImageSelect = (imagePath: string, altText: string) => {
+    setShowImagePicker(false);
+    if (editorViewRef.current) {
+      insertImage(editorViewRef.current, imagePath, altText);
+    }
+  };
 
   return (
     <div className="p-1 sm:p-6 dark:bg-gray-800">
-      <h2 className="text-xl font-bold mb-6 dark:text-white flex items-center">
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mr-2 text-primary-600 dark:text-primary-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
-        </svg>
-        Content Editor
-      </h2>
-      <div className="border dark:border-gray-700 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-all duration-200">
-        <textarea
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold dark:text-white flex items-center">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mr-2 text-primary-600 dark:text-primary-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+          </svg>
+          Content Editor
+        </h2>
+        <label className="flex items-center text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={softWrap}
+            onChange={(e) => setSoftWrap(e.target.checked)}
+            className="mr-2 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+          />
+          Wrap lines
+        </label>
+      </div>
+      <div className="border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-all duration-200 bg-white dark:bg-gray-700">
+        <FormattingToolbar
+          editorView={editorViewRef}
+          onInsertImage={canInsertImages ? () => setShowImagePicker(true) : undefined}
+        />
+        <CodeEditor
           value={content}
-          onChange={handleContentChange}
-          className="font-mono text-sm p-4 w-full h-[600px] focus:outline-none border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-lg transition-all duration-200 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:border-primary-500 focus:dark:border-primary-400"
+          onChange={onChange}
+          darkMode={theme === 'dark'}
+          softWrap={softWrap}
           placeholder="Write your MDX content here..."
+          keyBindings={formattingKeymap}
+          viewRef={editorViewRef}
         />
       </div>
+
+      {showImagePicker && repoName && slug && (
+        <UploadedImagePicker
+          repoName={repoName}
+          slug={slug}
+          onClose={() => setShowImagePicker(false)}
+          onSelect={handleImageSelect}
+        />
+      )}
       
       <div className="mt-4 text-sm text-gray-500 dark:text-gray-300 flex items-center p-2 bg-gray-50 dark:bg-gray-800 border dark:border-gray-700 rounded-md shadow-sm">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-amber-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
         </svg>
         <p>
-          <span className="font-medium">Tip:</span> Use standard Markdown syntax plus JSX components.
+          <span className="font-medium">Tip:</span> Use standard Markdown syntax plus JSX components. Select text and use the toolbar or its shortcuts to format it; press Ctrl+F to find and replace.
         </p>
       </div>
     </div>
@@ -1,17 +1,24 @@
 import React from 'react';
+import { ContentViewMode } from '@/types';
 
 interface EditorToolbarProps {
-  activeTab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt';
-  onTabChange: (tab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt') => void;
-  isPreviewMode: boolean;
-  onTogglePreview: () => void;
+  activeTab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history';
+  onTabChange: (tab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history') => void;
+  viewMode: ContentViewMode;
+  onViewModeChange: (mode: ContentViewMode) => void;
 }
 
+const VIEW_MODES: { mode: ContentViewMode; label: string }[] = [
+  { mode: 'edit', label: 'Editor' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'preview', label: 'Preview' },
+];
+
 const EditorToolbar: React.FC<EditorToolbarProps> = ({
   activeTab,
   onTabChange,
-  isPreviewMode,
-  onTogglePreview,
+  viewMode,
+  onViewModeChange,
 }) => {
   return (
     <div className="mb-6 border-b border-gray-200 dark:border-gray-700">
@@ -67,20 +74,33 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
           >
             InBlogImagePrompt
           </button>
+          <button
+            onClick={() => onTabChange('history')}
+            className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px ${
+              activeTab === 'history'
+                ? 'border-primary-500 text-primary-600 dark:text-primary-400 dark:border-primary-500'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+            }`}
+          >
+            History
+          </button>
         </div>
         
         {activeTab === 'content' && (
-          <div className="flex border-t md:border-t-0 dark:border-gray-700 pt-2 md:pt-0">
-            <button
-              onClick={onTogglePreview}
-              className={`px-4 py-2 text-sm font-medium rounded-md ${
-                isPreviewMode
-                  ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
-                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-              }`}
-            >
-              {isPreviewMode ? 'Editing' : 'Preview'}
-            </button>
+          <div className="flex border-t md:border-t-0 dark:border-gray-700 pt-2 md:pt-0 space-x-1">
+            {VIEW_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => onViewModeChange(mode)}
+                className={`px-4 py-2 text-sm font-medium rounded-md ${
+                  viewMode === mode
+                    ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
         )}
       </div>
@@ -0,0 +1,129 @@
+import React from 'react';
+import { EditorView } from '@codemirror/view';
+import {
+  FORMATTING_SHORTCUTS,
+  formatShortcut,
+  insertCodeBlock,
+  insertLink,
+  insertTable,
+  toggleBlockquote,
+  toggleBold,
+  toggleBulletList,
+  toggleHeading,
+  toggleItalic,
+  toggleOrderedList,
+} from './markdownCommands';
+
+interface FormattingToolbarProps {
+  editorView: React.RefObject<EditorView | null>;
+  onInsertImage?: () => void; // Hidden when the post's uploads can't be browsed
+}
+
+interface FormattingAction {
+  label: React.ReactNode;
+  title: string;
+  shortcut: string;
+  run: (view: EditorView) => boolean;
+}
+
+const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ editorView, onInsertImage }) => {
+  const groups: FormattingAction[][] = [
+    [
+      { label: <span className="font-bold">B</span>, title: 'Bold', shortcut: FORMATTING_SHORTCUTS.bold, run: toggleBold },
+      { label: <span className="italic font-serif">I</span>, title: 'Italic', shortcut: FORMATTING_SHORTCUTS.italic, run: toggleItalic },
+    ],
+    [
+      { label: 'H1', title: 'Heading 1', shortcut: FORMATTING_SHORTCUTS.heading1, run: toggleHeading(1) },
+      { label: 'H2', title: 'Heading 2', shortcut: FORMATTING_SHORTCUTS.heading2, run: toggleHeading(2) },
+      { label: 'H3', title: 'Heading 3', shortcut: FORMATTING_SHORTCUTS.heading3, run: toggleHeading(3) },
+    ],
+    [
+      {
+        label: (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 6h11M9 12h11M9 18h11M5 6h.01M5 12h.01M5 18h.01" />
+          </svg>
+        ),
+        title: 'Bulleted list',
+        shortcut: FORMATTING_SHORTCUTS.bulletList,
+        run: toggleBulletList,
+      },
+      { label: '1.', title: 'Numbered list', shortcut: FORMATTING_SHORTCUTS.orderedList, run: toggleOrderedList },
+      { label: <span className="font-serif text-base leading-none">&ldquo;</span>, title: 'Blockquote', shortcut: FORMATTING_SHORTCUTS.blockquote, run: toggleBlockquote },
+      { label: <span className="font-mono">{'</>'}</span>, title: 'Code block', shortcut: FORMATTING_SHORTCUTS.codeBlock, run: insertCodeBlock },
+    ],
+    [
+      {
+        label: (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+          </svg>
+        ),
+        title: 'Link',
+        shortcut: FORMATTING_SHORTCUTS.link,
+        run: insertLink,
+      },
+      {
+        label: (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" />
+          </svg>
+        ),
+        title: 'Table',
+        shortcut: FORMATTING_SHORTCUTS.table,
+        run: insertTable,
+      },
+    ],
+  ];
+
+  const buttonClassName = 'min-w-[2rem] h-8 px-2 flex items-center justify-center text-sm rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200';
+
+  // Keep the editor focused so the selection stays intact
+  const keepEditorFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  const runAction = (action: FormattingAction) => {
+    if (editorView.current) {
+      action.run(editorView.current);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-2 py-1 border-b border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800">
+      {groups.map((group, groupIndex) => (
+        <React.Fragment key={groupIndex}>
+          {groupIndex > 0 && <span className="w-px h-5 mx-1 bg-gray-300 dark:bg-gray-600" />}
+          {group.map(action => (
+            <button
+              key={action.title}
+              type="button"
+              title={`${action.title} (${formatShortcut(action.shortcut)})`}
+              aria-label={action.title}
+              onMouseDown={keepEditorFocus}
+              onClick={() => runAction(action)}
+              className={buttonClassName}
+            >
+              {action.label}
+            </button>
+          ))}
+        </React.Fragment>
+      ))}
+
+      {onInsertImage && (
+        <button
+          type="button"
+          title={`Insert image from this post's uploads (${formatShortcut(FORMATTING_SHORTCUTS.image)})`}
+          aria-label="Insert image"
+          onMouseDown={keepEditorFocus}
+          onClick={onInsertImage}
+          className={buttonClassName}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FormattingToolbar;
@@ -0,0 +1,50 @@
+import React from 'react';
+import Image from 'next/image';
+import { ImageJob } from '@/types';
+
+interface ImageCandidatePickerProps {
+  job: ImageJob;
+  selected?: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The images a generation job returned for one slot, side by side; click one to pick it
+ */
+const ImageCandidatePicker: React.FC<ImageCandidatePickerProps> = ({ job, selected, onSelect, disabled = false }) => {
+  const count = job.candidateCount || 0;
+  if (count === 0) return null;
+
+  return (
+    <div className={`grid gap-2 ${count === 1 ? 'grid-cols-1' : count === 2 ? 'grid-cols-2' : 'grid-cols-3'}`}>
+      {Array.from({ length: count }, (_, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onSelect(index)}
+          disabled={disabled}
+          title={`Candidate ${index + 1}`}
+          className={`relative h-24 rounded-md overflow-hidden bg-gray-100 dark:bg-gray-800 disabled:cursor-not-allowed ${
+            selected === index
+              ? 'ring-2 ring-primary-500 dark:ring-primary-400'
+              : 'ring-1 ring-gray-200 dark:ring-gray-700 hover:ring-primary-300'
+          }`}
+        >
+          <Image
+            src={`/api/images/jobs/candidate?id=${encodeURIComponent(job.id)}&index=${index}&t=${encodeURIComponent(job.startedAt || job.createdAt)}`}
+            alt={`Candidate ${index + 1}`}
+            fill
+            className="object-cover"
+            sizes="160px"
+          />
+          <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded text-[10px] bg-black/60 text-white">
+            {selected === index ? `${index + 1} · selected` : index + 1}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ImageCandidatePicker;
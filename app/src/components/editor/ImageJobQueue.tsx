@@ -0,0 +1,87 @@
+import React from 'react';
+import { ImageJob, ImageJobStatus } from '@/types';
+
+interface ImageJobQueueProps {
+  jobs: ImageJob[];
+  onRemove: (job: ImageJob) => void;
+}
+
+const STATUS_LABELS: Record<ImageJobStatus, string> = {
+  queued: 'Queued',
+  generating: 'Generating',
+  downloading: 'Saving image',
+  staged: 'Ready for review',
+  replaced: 'Replaced',
+  rejected: 'Rejected',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<ImageJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  generating: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  downloading: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  staged: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  replaced: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  rejected: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+/**
+ * Live list of a post's image generation jobs, as reported by the server's queue
+ */
+const ImageJobQueue: React.FC<ImageJobQueueProps> = ({ jobs, onRemove }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mb-8 border rounded-lg dark:border-gray-700">
+      <p className="px-3 py-2 border-b dark:border-gray-700 text-sm font-medium text-gray-700 dark:text-gray-300">
+        Image generation queue
+      </p>
+      <ul className="divide-y dark:divide-gray-700">
+        {jobs.map(job => {
+          const filename = job.imagePath.split('/').pop() || job.imagePath;
+          const running = job.status === 'generating' || job.status === 'downloading';
+
+          return (
+            <li key={job.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-800 dark:text-gray-200 truncate" title={job.imagePath}>
+                  {filename}
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {job.type === 'hero' ? 'Hero image' : `In-blog image ${(job.placeholderNumber ?? 0) + 1}`}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {job.provider ? `${job.provider} · ` : ''}updated {new Date(job.updatedAt).toLocaleTimeString()}
+                </p>
+                {job.error && <p className="text-xs text-red-600 dark:text-red-400">{job.error}</p>}
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[job.status]}`}>
+                  {running && (
+                    <svg className="animate-spin -ml-0.5 mr-1 h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  )}
+                  {STATUS_LABELS[job.status]}
+                </span>
+                {!running && (
+                  <button
+                    type="button"
+                    onClick={() => onRemove(job)}
+                    className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  >
+                    {job.status === 'queued' ? 'Cancel' : 'Clear'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ImageJobQueue;
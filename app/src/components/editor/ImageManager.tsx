@@ -1,41 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
 import Image from 'next/image';
-import { BlogImage, BlogPost } from '@/types';
+import { BlogImage, BlogPost, GeneratedImage, ImageGenerationStatus, ImageJob, ImageJobEvent, ImageReviewAction } from '@/types';
 import ImageZoomModal from './ImageZoomModal';
+import ImageJobQueue from './ImageJobQueue';
+import ImageReviewGrid from './ImageReviewGrid';
+import ImageCandidatePicker from './ImageCandidatePicker';
+import Button from '../ui/Button';
 import { formatDateForDisplay } from '@/utils/dateUtils';
 
-// API Configuration
-//
-const API_BASE_URL = 'https://cms.apanaresult.com/oai_reverse';
-//const API_BASE_URL = 'http://localhost:5000';
-
-// API Response interfaces
-interface ApiImageResponse {
-  image_id?: string;
-  alt_text?: string;
-  download_url?: string | null;
-  status?: 'finished_successfully' | 'in_progress' | 'unknown';
-  dimensions?: { width: number; height: number };
-  size_bytes?: number;
-  message_id?: string;
-  author?: string;
-  metadata?: Record<string, unknown>;
-}
-
-interface ApiExtractResponse {
-  success: boolean;
-  conversation_id?: string;
-  total_images?: number;
-  images_completed?: number;
-  images_in_progress?: number;
-  images: ApiImageResponse[];
-}
-
 interface AutoImageRequest {
   repoName: string;
   slug: string;
-  authToken: string;
   type: 'hero' | 'inblog';
   placeholder_number?: number;
 }
@@ -70,17 +46,13 @@ const ImageManager: React.FC<ImageManagerProps> = ({
   const [isGeneratingImages, setIsGeneratingImages] = useState<Record<string, boolean>>({});
   const [conversationIds, setConversationIds] = useState<Record<string, string>>({});
   const [isExtractingImages, setIsExtractingImages] = useState<Record<string, boolean>>({});
-  const [extractedImagesData, setExtractedImagesData] = useState<Record<string, Array<{
-    altText: string;
-    downloadUrl: string;
-    status: 'finished_successfully' | 'in_progress' | 'unknown';
-    imageId: string;
-    dimensions?: { width: number; height: number };
-    sizeBytes?: number;
-  }>>>({});
-  const [authTokens, setAuthTokens] = useState<Record<string, string>>({});
+  const [extractedImagesData, setExtractedImagesData] = useState<Record<string, GeneratedImage[]>>({});
   const [isDeletingConversations, setIsDeletingConversations] = useState<Record<string, boolean>>({});
   const [isAutoGeneratingImages, setIsAutoGeneratingImages] = useState<Record<string, boolean>>({});
+  const [imageJobs, setImageJobs] = useState<ImageJob[]>([]);
+  const [isQueueingBatch, setIsQueueingBatch] = useState<boolean>(false);
+  const [missingOnly, setMissingOnly] = useState<boolean>(false);
+  const [reviewingJobs, setReviewingJobs] = useState<Record<string, boolean>>({});
   
   // Global states that remain single-value
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -218,6 +190,45 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     }
   }, [post, images]);
 
+  // Follow the post's image generation jobs; EventSource reconnects by itself and gets a fresh snapshot
+  const slug = post?.frontmatter?.slug;
+  useEffect(() => {
+    if (!slug) return;
+
+    const params = new URLSearchParams({ repoName, slug });
+    const source = new EventSource(`/api/images/jobs/events?${params}`);
+
+    source.onmessage = (message) => {
+      const event: ImageJobEvent = JSON.parse(message.data);
+
+      if (event.type === 'snapshot') {
+        setImageJobs(event.jobs);
+      } else if (event.type === 'removed') {
+        setImageJobs(prev => prev.filter(job => job.id !== event.job.id));
+      } else {
+        setImageJobs(prev => prev.some(job => job.id === event.job.id)
+          ? prev.map(job => job.id === event.job.id ? event.job : job)
+          : [...prev, event.job]);
+        // The generated image was written over the old file; reload it
+        if (event.job.status === 'replaced') {
+          setImageCacheBusters(prev => ({ ...prev, [event.job.imagePath]: Date.now() }));
+        }
+      }
+    };
+
+    return () => source.close();
+  }, [repoName, slug]);
+
+  // The latest job that replaced an image and still has other candidates cached to switch to
+  const getCandidatesJob = (image: BlogImage) => imageJobs.filter(job =>
+    job.imagePath === image.path && job.status === 'replaced' && (job.candidateCount || 0) > 1
+  ).pop();
+
+  // The unfinished generation job of an image, if it has one
+  const getActiveJob = (image: BlogImage) => imageJobs.find(job =>
+    job.imagePath === image.path && ['queued', 'generating', 'downloading'].includes(job.status)
+  );
+
   // Filter images into hero and content images
   const heroImage = images.find((img) => img.inHero);
   const contentImages = images.filter((img) => !img.inHero);
@@ -343,20 +354,22 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     try {
       const prompt = await generatePrompt(image);
       
-      const response = await fetch(`${API_BASE_URL}/send-message`, {
+      // Sent through the repository's configured image generation provider
+      const response = await fetch('/api/images/generation', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          message: prompt
+          repoName,
+          prompt
         })
       });
       
       if (response.ok) {
         const data = await response.json();
-        if (data.success && data.conversation_id) {
-          const newConvId = data.conversation_id;
+        if (data.jobId) {
+          const newConvId = data.jobId;
           setImageData(image.path, newConvId, setConversationIds);
           // Save to session storage
           saveConversationId(image, newConvId);
@@ -386,42 +399,23 @@ const ImageManager: React.FC<ImageManagerProps> = ({
   // Handle image extraction - now accepts image parameter
   const handleExtractImage = async (image: BlogImage) => {
     const conversationId = conversationIds[image.path];
-    const authToken = authTokens[image.path] || 'XYZ';
     if (!conversationId) return;
     
     setImageAction(image.path, true, setIsExtractingImages);
     setUploadError(null);
     
     try {
-      const url = `${API_BASE_URL}/conversation/${conversationId}/images${authToken ? `?auth_token=${authToken}` : ''}`;
-      const response = await fetch(url);
+      const params = new URLSearchParams({ repoName, jobId: conversationId });
+      const response = await fetch(`/api/images/generation?${params}`);
       
       if (response.ok) {
-        const data: ApiExtractResponse = await response.json();
-        if (data.success && data.images && data.images.length > 0) {
-          const extractedImages: Array<{
-          altText: string;
-          downloadUrl: string;
-          status: 'finished_successfully' | 'in_progress' | 'unknown';
-          imageId: string;
-          dimensions?: { width: number; height: number };
-          sizeBytes?: number;
-        }> = data.images.map((img: ApiImageResponse) => ({
-          altText: img.alt_text || (img.status === 'in_progress' ? 'Image is still in progress' : ''),
-          downloadUrl: img.download_url || '',
-          status: (img.status || 'unknown') as 'finished_successfully' | 'in_progress' | 'unknown',
-          imageId: img.image_id || '',
-          dimensions: img.dimensions,
-          sizeBytes: img.size_bytes
-        }));
-          setImageData(image.path, extractedImages, setExtractedImagesData);
+        const data: { status: ImageGenerationStatus } = await response.json();
+        if (data.status.images.length > 0) {
+          setImageData(image.path, data.status.images, setExtractedImagesData);
           
           // Show status summary if there are images in progress
-          if (data.images_in_progress && data.images_in_progress > 0) {
-            const completedCount = data.images_completed || 0;
-            const inProgressCount = data.images_in_progress || 0;
-            const totalCount = data.total_images || data.images.length;
-            setUploadError(`Images status: ${completedCount} completed, ${inProgressCount} in progress (${totalCount} total)`);
+          if (data.status.inProgress > 0) {
+            setUploadError(`Images status: ${data.status.completed} completed, ${data.status.inProgress} in progress (${data.status.images.length} total)`);
           }
         } else {
           setUploadError('No images found in conversation');
@@ -444,8 +438,6 @@ const ImageManager: React.FC<ImageManagerProps> = ({
       return;
     }
 
-    const authToken = authTokens[image.path] || 'xyz';
-    
     // Determine type and placeholder_number
     const type = image.inHero ? 'hero' : 'inblog';
     let placeholder_number: number | undefined;
@@ -458,12 +450,12 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     }
 
     setIsAutoGeneratingImages(prev => ({ ...prev, [image.path]: true }));
+    setUploadError(null);
     
     try {
       const requestBody: AutoImageRequest = {
         repoName,
         slug: post.frontmatter.slug,
-        authToken,
         type
       };
       
@@ -472,42 +464,113 @@ const ImageManager: React.FC<ImageManagerProps> = ({
         requestBody.placeholder_number = placeholder_number;
       }
 
-      // Make the API call - don't wait for response as it takes 5 minutes
-      fetch('https://cms.apanaresult.com/api/images/generate-and-replace-all', {
+      // Queue the job; its progress arrives through the job events
+      const response = await fetch('/api/images/generate-and-replace-all', {
         method: 'POST',
         headers: {
-          'Authorization': 'Basic dmlwaW46dmlwaW4=',
           'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
         },
         body: JSON.stringify(requestBody)
-      }).catch(error => {
-        console.error('Auto image generation error:', error);
       });
       
-      // Immediately show success message without waiting for response
-      alert('Task sent! Auto image generation has been initiated.');
-      
+      const data = await response.json();
+      if (!response.ok) {
+        setUploadError(`Failed to queue image generation: ${data.error || response.statusText}`);
+      }
     } catch (error) {
       console.error('Error in auto image generation:', error);
-      alert('Error initiating auto image generation');
+      setUploadError('Failed to queue image generation: Network error');
     } finally {
       setIsAutoGeneratingImages(prev => ({ ...prev, [image.path]: false }));
     }
   };
 
+  // Queue every image of the post; the results are staged for review instead of replacing the files
+  const handleGenerateAll = async () => {
+    if (!post?.frontmatter?.slug) {
+      alert('Post slug not available');
+      return;
+    }
+
+    setIsQueueingBatch(true);
+    setUploadError(null);
+
+    try {
+      const response = await fetch('/api/images/generate-and-replace-all', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName, slug: post.frontmatter.slug, type: 'all', missingOnly })
+      });
+
+      const data = await response.json();
+      if (data.error) {
+        setUploadError(`Failed to queue image generation: ${data.error}`);
+      } else if (data.skipped?.length > 0) {
+        const skipped = data.skipped.map((item: { imagePath: string; error: string }) => `${item.imagePath.split('/').pop()} (${item.error})`);
+        setUploadError(`${data.message}. Skipped: ${skipped.join(', ')}`);
+      } else if (!data.success) {
+        setUploadError(data.message);
+      }
+    } catch (error) {
+      console.error('Error queueing batch image generation:', error);
+      setUploadError('Failed to queue image generation: Network error');
+    } finally {
+      setIsQueueingBatch(false);
+    }
+  };
+
+  // Accept one of a job's candidates (also to switch to another after it replaced the image), reject them or regenerate
+  const handleReviewJob = async (job: ImageJob, action: ImageReviewAction, candidate?: number) => {
+    setImageAction(job.id, true, setReviewingJobs);
+
+    try {
+      const response = await fetch('/api/images/jobs/review', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: job.id, action, candidate })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setUploadError(data.error || `Failed to ${action} the image`);
+      }
+    } catch (error) {
+      console.error('Error reviewing image job:', error);
+      setUploadError(`Failed to ${action} the image: Network error`);
+    } finally {
+      clearImageAction(job.id, setReviewingJobs);
+    }
+  };
+
+  // Cancel a queued job or clear a finished one from the queue
+  const handleRemoveJob = async (job: ImageJob) => {
+    try {
+      const response = await fetch(`/api/images/jobs?id=${encodeURIComponent(job.id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setUploadError(data.error || 'Failed to remove the job');
+      }
+    } catch (error) {
+      console.error('Error removing image job:', error);
+      setUploadError('Failed to remove the job: Network error');
+    }
+  };
+
   // Handle conversation deletion - now accepts image parameter
   const handleDeleteConversation = async (image: BlogImage) => {
     const conversationId = conversationIds[image.path];
-    const authToken = authTokens[image.path] || 'XYZ';
     if (!conversationId) return;
     
     setImageAction(image.path, true, setIsDeletingConversations);
     setUploadError(null);
     
     try {
-      const url = `${API_BASE_URL}/conversation/${conversationId}${authToken ? `?auth_token=${authToken}` : ''}`;
-      const response = await fetch(url, {
+      const params = new URLSearchParams({ repoName, jobId: conversationId });
+      const response = await fetch(`/api/images/generation?${params}`, {
         method: 'DELETE'
       });
       
@@ -517,7 +580,7 @@ const ImageManager: React.FC<ImageManagerProps> = ({
         
         // Reset UI state for this image
         setImageData(image.path, '' as string, setConversationIds);
-        setImageData(image.path, [] as Array<{altText: string; downloadUrl: string; status: 'finished_successfully' | 'in_progress' | 'unknown'; imageId: string; dimensions?: {width: number; height: number}; sizeBytes?: number}>, setExtractedImagesData);
+        setImageData(image.path, [] as GeneratedImage[], setExtractedImagesData);
         
         // Show success (could add a success message if needed)
         console.log('Conversation deleted successfully');
@@ -540,14 +603,14 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     setUploadError(null);
     
     try {
-      // Use the new optimized endpoint that handles fetch + save in one call
-      const response = await fetch('/api/images/replace-from-url', {
+      // The provider that generated the image downloads it, then it's saved over the old one
+      const response = await fetch('/api/images/generation/replace', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          imageUrl: downloadUrl,
+          downloadUrl,
           repoName,
           slug: post?.frontmatter?.slug || '',
           oldImagePath: image.path,
@@ -567,8 +630,7 @@ const ImageManager: React.FC<ImageManagerProps> = ({
         // Reset UI state - close the generate image panel for this image
         clearImageAction(image.path, setGenerateImages);
         setImageData(image.path, '' as string, setConversationIds);
-        setImageData(image.path, [] as Array<{altText: string; downloadUrl: string; status: 'finished_successfully' | 'in_progress' | 'unknown'; imageId: string; dimensions?: {width: number; height: number}; sizeBytes?: number}>, setExtractedImagesData);
-        setImageData(image.path, 'XYZ' as string, setAuthTokens); // Reset to default
+        setImageData(image.path, [] as GeneratedImage[], setExtractedImagesData);
         
         // Refresh image to show the updated image
         refreshImage(image.path);
@@ -584,6 +646,10 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     }
   };
 
+  // Generated images are served through the provider, which knows how to download them
+  const getGeneratedImageUrl = (downloadUrl: string) =>
+    `/api/images/generation/image?${new URLSearchParams({ repoName, url: downloadUrl })}`;
+
   // Handle copy to clipboard
   const handleCopyToClipboard = async (text: string, type: string) => {
     try {
@@ -801,8 +867,8 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     const isGenerating = isGeneratingImages[image.path] || false;
     const isExtracting = isExtractingImages[image.path] || false;
     const isDeleting = isDeletingConversations[image.path] || false;
-    const authToken = authTokens[image.path] || 'XYZ';
     const extractedImages = extractedImagesData[image.path] || [];
+    const activeJob = getActiveJob(image);
     
     if (!isSelected) return null;
     
@@ -839,10 +905,13 @@ const ImageManager: React.FC<ImageManagerProps> = ({
               
               <button
                 onClick={() => handleAutoImage(image)}
-                disabled={isAutoGeneratingImages[image.path] || false}
+                disabled={isAutoGeneratingImages[image.path] || Boolean(activeJob)}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                title={activeJob ? 'This image is in the generation queue' : 'Generate this image in the background and replace it when it is ready'}
               >
-                {isAutoGeneratingImages[image.path] ? (
+                {activeJob ? (
+                  activeJob.status === 'queued' ? 'Queued' : 'Generating...'
+                ) : isAutoGeneratingImages[image.path] ? (
                   <>
                     <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -857,10 +926,10 @@ const ImageManager: React.FC<ImageManagerProps> = ({
             </div>
           </div>
           
-          {/* Step 2: Conversation ID and Auth Token (Always visible) */}
+          {/* Step 2: Conversation ID (Always visible) */}
           <div>
             <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
-              Step 2: Enter or edit conversation ID, add auth token (optional), and extract images
+              Step 2: Enter or edit conversation ID and extract images
             </p>
             <div className="space-y-2">
               <div>
@@ -875,18 +944,6 @@ const ImageManager: React.FC<ImageManagerProps> = ({
                   placeholder="Enter conversation ID (from API response or manually)"
                 />
               </div>
-              <div>
-                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Auth Token (optional):
-                </label>
-                <input
-                  type="text"
-                  value={authToken}
-                  onChange={(e) => setImageData(image.path, e.target.value, setAuthTokens)}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
-                  placeholder="Auth Token (optional)"
-                />
-              </div>
               <div className="flex space-x-2">
                 <button
                   onClick={() => handleExtractImage(image)}
@@ -1027,13 +1084,13 @@ const ImageManager: React.FC<ImageManagerProps> = ({
                         <div className="flex flex-col gap-2">
                           <input
                             type="text"
-                            value={img.downloadUrl}
+                            value={img.downloadUrl || ''}
                             readOnly
                             className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-gray-200 overflow-hidden text-ellipsis"
                           />
                           <div className="flex gap-1 flex-wrap">
                             <button
-                              onClick={() => handleExtractedImageReplace(image, img.downloadUrl)}
+                              onClick={() => handleExtractedImageReplace(image, img.downloadUrl || '')}
                               disabled={isExtracting}
                               className={`flex-1 min-w-[80px] px-2 py-1 text-xs font-semibold border border-blue-300 dark:border-blue-500 text-white shadow-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed rounded-md ${
                                 isExtracting 
@@ -1060,7 +1117,7 @@ const ImageManager: React.FC<ImageManagerProps> = ({
                               )}
                             </button>
                             <button
-                              onClick={() => window.open(img.downloadUrl, '_blank', 'noopener,noreferrer')}
+                              onClick={() => window.open(getGeneratedImageUrl(img.downloadUrl || ''), '_blank', 'noopener,noreferrer')}
                               className="flex-1 min-w-[80px] px-2 py-1 text-xs font-semibold border border-teal-300 dark:border-teal-500 text-white shadow-sm transition-all duration-200 bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 dark:from-teal-600 dark:to-teal-700 dark:hover:from-teal-700 dark:hover:to-teal-800 hover:scale-105 flex items-center justify-center rounded-md"
                               title="Open image in new tab"
                             >
@@ -1070,7 +1127,7 @@ const ImageManager: React.FC<ImageManagerProps> = ({
                               <span>Open</span>
                             </button>
                             <button
-                              onClick={() => handleCopyToClipboard(img.downloadUrl, `url-${index}`)}
+                              onClick={() => handleCopyToClipboard(img.downloadUrl || '', `url-${index}`)}
                               className={`flex-1 min-w-[80px] px-2 py-1 text-xs font-semibold border border-purple-300 dark:border-purple-500 text-white shadow-sm transition-all duration-200 rounded-md flex items-center justify-center ${
                                 copiedText === `url-${index}` 
                                   ? 'bg-green-500 dark:bg-green-600 border-green-400 dark:border-green-500' 
@@ -1185,6 +1242,7 @@ const ImageManager: React.FC<ImageManagerProps> = ({
     const filename = image.path.split('/').pop() || image.path;
     
     const isSelected = activeImages[image.path] || false;
+    const candidatesJob = getCandidatesJob(image);
     
     return (
       <div 
@@ -1258,8 +1316,7 @@ const ImageManager: React.FC<ImageManagerProps> = ({
                   if (!isCurrentlyGenerating) {
                     const storedConvId = loadConversationId(image);
                     setImageData(image.path, storedConvId, setConversationIds);
-                    setImageData(image.path, [] as Array<{altText: string; downloadUrl: string; status: 'finished_successfully' | 'in_progress' | 'unknown'; imageId: string; dimensions?: {width: number; height: number}; sizeBytes?: number}>, setExtractedImagesData);
-                    setImageData(image.path, 'XYZ' as string, setAuthTokens); // Always default to XYZ
+                    setImageData(image.path, [] as GeneratedImage[], setExtractedImagesData);
                   }
                 }}
                 className="text-xs font-medium text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300"
@@ -1304,6 +1361,20 @@ const ImageManager: React.FC<ImageManagerProps> = ({
               {/* We could add image size info here if available */}
             </span>
           </div>
+          
+          {candidatesJob && (
+            <div className="mt-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Generated candidates (click one to use it instead)
+              </p>
+              <ImageCandidatePicker
+                job={candidatesJob}
+                selected={candidatesJob.selectedCandidate}
+                onSelect={(index) => index !== candidatesJob.selectedCandidate && handleReviewJob(candidatesJob, 'accept', index)}
+                disabled={reviewingJobs[candidatesJob.id] || false}
+              />
+            </div>
+          )}
         </div>
         
         {/* Render replacement UI directly below this image if it's selected */}
@@ -1330,7 +1401,32 @@ const ImageManager: React.FC<ImageManagerProps> = ({
         imageSrc={zoomedImageSrc}
         altText={zoomedImageAlt}
       />
-      <h2 className="text-xl font-bold mb-6 dark:text-white">Manage Images</h2>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-xl font-bold dark:text-white">Manage Images</h2>
+        {post?.frontmatter?.slug && images.length > 0 && (
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={missingOnly}
+                onChange={(e) => setMissingOnly(e.target.checked)}
+                className="mr-1.5 rounded border-gray-300 dark:border-gray-600"
+              />
+              Only images without a file
+            </label>
+            <Button
+              size="sm"
+              variant="primary"
+              onClick={handleGenerateAll}
+              isLoading={isQueueingBatch}
+              disabled={isQueueingBatch}
+              title="Generate the hero and in-blog images together and review them before they replace anything"
+            >
+              Generate All Images
+            </Button>
+          </div>
+        )}
+      </div>
       
       {uploadError && (
         <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-md flex justify-between items-start">
@@ -1345,6 +1441,16 @@ const ImageManager: React.FC<ImageManagerProps> = ({
         </div>
       )}
       
+      <ImageReviewGrid
+        jobs={imageJobs.filter(job => job.review && job.status !== 'replaced')}
+        currentImageUrl={(imagePath) => `/api/image?repoName=${repoName}&imagePath=${imagePath}&t=${getCacheBuster(imagePath)}`}
+        busyJobs={reviewingJobs}
+        onReview={handleReviewJob}
+        onRemove={handleRemoveJob}
+      />
+      
+      <ImageJobQueue jobs={imageJobs.filter(job => !job.review)} onRemove={handleRemoveJob} />
+      
       {/* Hero Image Section */}
       <div className="mb-8">
         <h3 className="font-medium text-lg mb-3 dark:text-white">Hero Image</h3>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import Image from 'next/image';
+import Button from '../ui/Button';
+import ImageCandidatePicker from './ImageCandidatePicker';
+import { ImageJob, ImageReviewAction } from '@/types';
+
+interface ImageReviewGridProps {
+  jobs: ImageJob[]; // Batch jobs of the post
+  currentImageUrl: (imagePath: string) => string;
+  busyJobs: Record<string, boolean>;
+  onReview: (job: ImageJob, action: ImageReviewAction, candidate?: number) => void;
+  onRemove: (job: ImageJob) => void;
+}
+
+const PROGRESS_LABELS: Partial<Record<ImageJob['status'], string>> = {
+  queued: 'Waiting to start...',
+  generating: 'Generating...',
+  downloading: 'Saving for review...',
+};
+
+/**
+ * Images generated in a batch, each slot's candidates next to the image they would replace,
+ * to accept one, reject them or generate again. Nothing is written to the post until a candidate is accepted
+ */
+const ImageReviewGrid: React.FC<ImageReviewGridProps> = ({ jobs, currentImageUrl, busyJobs, onReview, onRemove }) => {
+  // Candidate picked for each job; the first one until another is clicked
+  const [selected, setSelected] = useState<Record<string, number>>({});
+
+  if (jobs.length === 0) return null;
+
+  const staged = jobs.filter(job => job.status === 'staged');
+
+  return (
+    <div className="mb-8 border rounded-lg dark:border-gray-700">
+      <div className="flex items-center justify-between px-3 py-2 border-b dark:border-gray-700">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Review generated images
+          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+            {staged.length} of {jobs.length} ready
+          </span>
+        </p>
+        {staged.length > 1 && (
+          <Button size="sm" variant="primary" onClick={() => staged.forEach(job => onReview(job, 'accept', selected[job.id] ?? 0))}>
+            Accept All Ready
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 p-3">
+        {jobs.map(job => {
+          const filename = job.imagePath.split('/').pop() || job.imagePath;
+          const busy = busyJobs[job.id] || false;
+          const inProgress = PROGRESS_LABELS[job.status];
+
+          return (
+            <div key={job.id} className="border rounded-lg dark:border-gray-700 overflow-hidden">
+              <div className="relative h-32 bg-gray-100 dark:bg-gray-800">
+                <Image src={currentImageUrl(job.imagePath)} alt={`Current ${filename}`} fill className="object-cover" sizes="400px" />
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded text-[10px] bg-black/60 text-white">Current</span>
+              </div>
+
+              <div className="p-2 border-t dark:border-gray-700">
+                {job.status === 'staged' ? (
+                  <ImageCandidatePicker
+                    job={job}
+                    selected={selected[job.id] ?? 0}
+                    onSelect={(index) => setSelected(prev => ({ ...prev, [job.id]: index }))}
+                    disabled={busy}
+                  />
+                ) : (
+                  <p className={`py-6 text-xs text-center ${job.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                    {inProgress || (job.status === 'rejected' ? 'Rejected' : job.error || 'Generation failed')}
+                  </p>
+                )}
+              </div>
+
+              <div className="p-2 space-y-2">
+                <p className="text-xs text-gray-700 dark:text-gray-300 truncate" title={job.imagePath}>
+                  {job.type === 'hero' ? 'Hero image' : `In-blog image ${(job.placeholderNumber ?? 0) + 1}`} · {filename}
+                </p>
+                {!inProgress && (
+                  <div className="flex flex-wrap gap-2">
+                    {job.status === 'staged' && (
+                      <>
+                        <Button size="sm" variant="primary" onClick={() => onReview(job, 'accept', selected[job.id] ?? 0)} disabled={busy}>
+                          {(job.candidateCount || 0) > 1 ? `Accept #${(selected[job.id] ?? 0) + 1}` : 'Accept'}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => onReview(job, 'reject')} disabled={busy}>
+                          {(job.candidateCount || 0) > 1 ? 'Reject All' : 'Reject'}
+                        </Button>
+                      </>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => onReview(job, 'regenerate')} disabled={busy}>
+                      Regenerate
+                    </Button>
+                    {job.status !== 'staged' && (
+                      <Button size="sm" variant="ghost" onClick={() => onRemove(job)} disabled={busy}>
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ImageReviewGrid;
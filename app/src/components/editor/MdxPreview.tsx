@@ -1,53 +1,13 @@
 import React from 'react';
+import MdxRenderer from './MdxRenderer';
 
 interface MdxPreviewProps {
   content: string;
   repoName: string;
+  scrollRef?: React.Ref<HTMLDivElement>; // The scrollable preview area, e.g. for scroll sync
 }
 
-const MdxPreview: React.FC<MdxPreviewProps> = ({ content, repoName }) => {
-  // In a real implementation, you'd use something like @mdx-js/react to render the MDX
-  // For now, we're just using a simple markdown-like preview
-
-  // Convert the markdown to HTML (very simplified version)
-  const renderMarkdown = (markdown: string) => {
-    // This is a very basic implementation
-    // In a production app, you'd use a proper MDX renderer
-    let html = markdown
-      // Handle headers
-      .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-      .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-      .replace(/^# (.*$)/gim, '<h1>$1</h1>')
-      // Handle bold
-      .replace(/\*\*(.*?)\*\*/gim, '<strong>$1</strong>')
-      // Handle italic
-      .replace(/\*(.*?)\*/gim, '<em>$1</em>')
-      // Handle links
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/gim, '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-primary-600 dark:text-primary-400 hover:underline">$1</a>')
-      // Handle images - replace image paths to use the API route
-      .replace(/!\[(.*?)\]\((\/images\/uploads\/[^\)]+)\)/gim, `<img src="/api/image?repoName=${repoName}&imagePath=$2" alt="$1" class="max-w-full h-auto rounded-lg my-4" />`)
-      // Handle any other images that don't match the pattern above
-      .replace(/!\[(.*?)\]\(((?!\/api\/image)[^\)]+)\)/gim, '<img src="$2" alt="$1" class="max-w-full h-auto rounded-lg my-4" />')
-      // Handle code blocks
-      .replace(/```([\s\S]*?)```/gi, '<pre class="bg-gray-100 dark:bg-gray-700 rounded-md p-4 my-4 overflow-x-auto"><code class="dark:text-gray-200">$1</code></pre>')
-      // Handle inline code
-      .replace(/`(.*?)`/gim, '<code class="bg-gray-100 dark:bg-gray-700 rounded px-1 dark:text-gray-200">$1</code>')
-      // Handle blockquotes
-      .replace(/^\> (.*$)/gim, '<blockquote class="border-l-4 border-gray-300 dark:border-gray-600 pl-4 py-2 my-4 text-gray-700 dark:text-gray-200">$1</blockquote>')
-      // Handle unordered lists
-      .replace(/^\- (.*$)/gim, '<li>$1</li>')
-      // Handle paragraphs
-      .split(/\n\n/).join('</p><p>');
-
-    // Wrap in paragraph tags
-    html = '<p>' + html + '</p>';
-    
-    // Fix lists
-    html = html.replace(/<li>(.*?)<\/li>/gi, '<ul class="list-disc pl-5 my-4"><li>$1</li></ul>');
-
-    return html;
-  };
-
+const MdxPreview: React.FC<MdxPreviewProps> = ({ content, repoName, scrollRef }) => {
   return (
     <div className="p-6 dark:bg-gray-800">
       <h2 className="text-xl font-bold mb-6 dark:text-white flex items-center">
@@ -67,15 +27,14 @@ const MdxPreview: React.FC<MdxPreviewProps> = ({ content, repoName }) => {
           </h3>
         </div>
         
-        <div 
-          className="prose max-w-none p-6 mdx-content dark:prose-invert dark:text-gray-200 min-h-[300px] max-h-[600px] overflow-y-auto custom-scrollbar"
-          dangerouslySetInnerHTML={{ __html: renderMarkdown(content) }}
-        />
+        <div ref={scrollRef} className="prose max-w-none p-6 mdx-content dark:prose-invert dark:text-gray-200 min-h-[300px] max-h-[600px] overflow-y-auto custom-scrollbar">
+          <MdxRenderer content={content} repoName={repoName} />
+        </div>
       </div>
       
       <div className="mt-4 text-sm text-gray-500 dark:text-gray-300">
         <p>
-          This is a simplified preview. Some MDX components may not render correctly.
+          Components without a preview renderer are shown as placeholders.
         </p>
       </div>
     </div>
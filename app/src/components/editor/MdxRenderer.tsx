@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MDXRemote, MDXRemoteSerializeResult } from 'next-mdx-remote';
+import { applyComponentManifest, createMdxComponents, createMissingComponentStub, MdxComponentMap } from './mdxComponents';
+import { useComponentManifest } from '@/contexts/ComponentManifestContext';
+
+interface MdxCompileError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+interface MdxRendererProps {
+  content: string;
+  repoName: string;
+  debounceMs?: number; // Delay before recompiling after the content changes
+}
+
+// Catches runtime errors thrown while rendering compiled MDX (e.g. bad expressions)
+class MdxErrorBoundary extends React.Component<
+  { children: React.ReactNode; resetKey: string },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidUpdate(prevProps: { resetKey: string }) {
+    // Try again whenever new content has been compiled
+    if (prevProps.resetKey !== this.props.resetKey && this.state.error) {
+      this.setState({ error: null });
+    }
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <div className="not-prose bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+          <p className="font-medium">Error rendering MDX</p>
+          <p className="text-sm font-mono mt-1">{this.state.error.message}</p>
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+// Show the lines around a compile error with line numbers and a column marker
+const renderErrorExcerpt = (content: string, error: MdxCompileError) => {
+  if (!error.line) return null;
+
+  const lines = content.split('\n');
+  const start = Math.max(1, error.line - 2);
+  const end = Math.min(lines.length, error.line + 2);
+  const gutterWidth = String(end).length;
+  const excerpt: string[] = [];
+
+  for (let lineNumber = start; lineNumber <= end; lineNumber++) {
+    const marker = lineNumber === error.line ? '>' : ' ';
+    excerpt.push(`${marker} ${String(lineNumber).padStart(gutterWidth)} | ${lines[lineNumber - 1]}`);
+    if (lineNumber === error.line && error.column) {
+      excerpt.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(error.column - 1)}^`);
+    }
+  }
+
+  return (
+    <pre className="mt-2 text-xs bg-white/60 dark:bg-gray-900/60 rounded p-2 overflow-x-auto">
+      {excerpt.join('\n')}
+    </pre>
+  );
+};
+
+const MdxRenderer: React.FC<MdxRendererProps> = ({ content, repoName, debounceMs = 400 }) => {
+  const [source, setSource] = useState<MDXRemoteSerializeResult | null>(null);
+  const [usedComponents, setUsedComponents] = useState<string[]>([]);
+  const [compileError, setCompileError] = useState<MdxCompileError | null>(null);
+  const [compiledContent, setCompiledContent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const manifest = useComponentManifest(repoName);
+
+  // Compile on the server after the content has settled
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ content }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+
+        if (data.compileError) {
+          setCompileError(data.compileError);
+        } else if (data.error) {
+          setCompileError({ message: data.error });
+        } else {
+          setSource(data.source);
+          setUsedComponents(data.components || []);
+          setCompileError(null);
+        }
+        setCompiledContent(content);
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          setCompileError({ message: (err as Error).message || 'Failed to compile preview' });
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [content, debounceMs]);
+
+  // Registry components, the repository's manifest components and stubs for anything still unknown
+  const components = useMemo<MdxComponentMap>(() => {
+    const registry = applyComponentManifest(createMdxComponents(repoName), manifest);
+    usedComponents.forEach(name => {
+      if (!registry[name]) {
+        registry[name] = createMissingComponentStub(name);
+      }
+    });
+    return registry;
+  }, [repoName, manifest, usedComponents]);
+
+  // Manifest problems worth surfacing next to the preview
+  const manifestWarnings = useMemo(() => {
+    if (!manifest) return [];
+    const builtIns = createMdxComponents(repoName);
+    const unknownRenderers = Object.entries(manifest.components)
+      .filter(([, definition]) => !definition.template && definition.renderer && !builtIns[definition.renderer])
+      .map(([name, definition]) => `${name}: unknown renderer "${definition.renderer}"`);
+    return [...(manifest.errors || []), ...unknownRenderers];
+  }, [repoName, manifest]);
+
+  return (
+    <div>
+      {manifestWarnings.length > 0 && (
+        <div className="not-prose mb-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-400 dark:border-amber-600 text-amber-800 dark:text-amber-200 px-4 py-3 rounded text-sm">
+          <p className="font-medium">Problems in mdx-components.json</p>
+          <ul className="list-disc list-inside mt-1">
+            {manifestWarnings.map(warning => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {compileError && (
+        <div className="not-prose mb-4 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+          <p className="font-medium">
+            MDX compile error{compileError.line ? ` at line ${compileError.line}${compileError.column ? `, column ${compileError.column}` : ''}` : ''}
+          </p>
+          <p className="text-sm font-mono mt-1">{compileError.message}</p>
+          {renderErrorExcerpt(compiledContent, compileError)}
+          {source && (
+            <p className="text-xs mt-2">Showing the last version that compiled successfully.</p>
+          )}
+        </div>
+      )}
+
+      {source ? (
+        <MdxErrorBoundary resetKey={source.compiledSource}>
+          <MDXRemote {...source} components={components} />
+        </MdxErrorBoundary>
+      ) : loading ? (
+        <p className="text-gray-500 dark:text-gray-400">Rendering preview...</p>
+      ) : null}
+    </div>
+  );
+};
+
+export default MdxRenderer;
@@ -1,82 +1,308 @@
-import React, { useState, useEffect } from 'react';
-import { BlogPostFrontmatter } from '@/types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { BlogPostFrontmatter, FrontmatterFieldError, FrontmatterFieldSchema, FrontmatterSchema } from '@/types';
 import { formatDateForDisplay, parseDateFromDisplay, isValidDateFormat } from '@/utils/dateUtils';
+import { DEFAULT_FRONTMATTER_SCHEMA, getFieldLabel, isQuiz, validateFrontmatter } from '@/utils/frontmatterSchema';
+import { isValidSlug } from '@/utils/slugUtils';
+import QuizEditor from './QuizEditor';
 
 interface MetadataEditorProps {
   frontmatter: BlogPostFrontmatter;
+  schema?: FrontmatterSchema; // Repository's frontmatter schema, defaults to the standard fields
+  fieldErrors?: FrontmatterFieldError[]; // Errors reported by the server on the last save
+  originalSlug?: string; // Slug of the post on disk, used to detect renames
   onChange: (frontmatter: Partial<BlogPostFrontmatter>) => void;
 }
 
-const MetadataEditor: React.FC<MetadataEditorProps> = ({
-  frontmatter,
-  onChange,
-}) => {
-  const [newTag, setNewTag] = useState('');
-  const [dateInput, setDateInput] = useState(formatDateForDisplay(frontmatter.date));
+const inputClassName = 'input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none';
+const invalidInputClassName = 'input w-full border rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:outline-none border-red-500 focus:border-red-500 focus:ring-red-500/20 dark:bg-gray-700 dark:text-white dark:border-red-400 dark:focus:border-red-400 dark:focus:ring-red-400/20';
+
+// Field types that get a full row in the form
+const FULL_WIDTH_TYPES = ['text', 'list', 'image', 'url', 'quiz'];
+
+interface FieldInputProps {
+  name: string;
+  field: FrontmatterFieldSchema;
+  value: unknown;
+  invalid: boolean;
+  onChange: (value: unknown) => void;
+}
+
+// Date input in DD/MM/YYYY, stored in the frontmatter as an ISO date
+const DateInput: React.FC<FieldInputProps> = ({ name, value, invalid, onChange }) => {
+  const storedDate = typeof value === 'string' ? value : '';
+  const [dateInput, setDateInput] = useState(storedDate ? formatDateForDisplay(storedDate) : '');
   const [dateError, setDateError] = useState<string | null>(null);
-  
+
   // Update date input when frontmatter changes (e.g., when loading a different post)
   useEffect(() => {
-    setDateInput(formatDateForDisplay(frontmatter.date));
+    setDateInput(storedDate ? formatDateForDisplay(storedDate) : '');
     setDateError(null);
-  }, [frontmatter.date]);
-  
-  // Handle basic input changes
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    onChange({ [name]: value });
-  };
-  
+  }, [storedDate]);
+
   // Handle date input change
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { value } = e.target;
-    setDateInput(value);
+    const { value: input } = e.target;
+    setDateInput(input);
     setDateError(null);
-    
+
     // Only update the frontmatter if the date is complete and valid
-    if (value.length === 10 && isValidDateFormat(value)) {
+    if (input.length === 10 && isValidDateFormat(input)) {
       try {
-        const isoDate = parseDateFromDisplay(value);
-        onChange({ date: isoDate });
+        onChange(parseDateFromDisplay(input));
       } catch {
         setDateError('Invalid date format');
       }
     }
   };
-  
+
   // Handle date input blur (when user finishes editing)
   const handleDateBlur = () => {
     if (dateInput && !isValidDateFormat(dateInput)) {
       setDateError('Please use DD/MM/YYYY format');
       // Reset to the original valid date
-      setDateInput(formatDateForDisplay(frontmatter.date));
+      setDateInput(storedDate ? formatDateForDisplay(storedDate) : '');
     }
   };
-  
-  // Add a new tag
-  const handleAddTag = (e: React.FormEvent) => {
+
+  return (
+    <>
+      <input
+        type="text"
+        id={name}
+        name={name}
+        value={dateInput}
+        onChange={handleDateChange}
+        onBlur={handleDateBlur}
+        placeholder="DD/MM/YYYY"
+        className={dateError || invalid ? invalidInputClassName : inputClassName}
+      />
+      {dateError && (
+        <p className="mt-1 text-xs text-red-500 dark:text-red-400">
+          {dateError}
+        </p>
+      )}
+    </>
+  );
+};
+
+// List of strings edited as removable tags
+const ListInput: React.FC<FieldInputProps> = ({ name, value, onChange }) => {
+  const [newItem, setNewItem] = useState('');
+  const items = Array.isArray(value) ? value.map(String) : [];
+
+  // Add a new item
+  const handleAddItem = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!newTag.trim()) return;
-    
-    // Don't add duplicate tags
-    if (frontmatter.tags.includes(newTag.trim())) {
-      setNewTag('');
-      return;
+
+    if (!newItem.trim()) return;
+
+    // Don't add duplicates
+    if (!items.includes(newItem.trim())) {
+      onChange([...items, newItem.trim()]);
     }
-    
-    onChange({
-      tags: [...frontmatter.tags, newTag.trim()],
-    });
-    
-    setNewTag('');
+
+    setNewItem('');
   };
-  
-  // Remove a tag
-  const handleRemoveTag = (tag: string) => {
-    onChange({
-      tags: frontmatter.tags.filter((t) => t !== tag),
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2 mb-3 max-h-36 overflow-y-auto py-2">
+        {items.map((item) => (
+          <div
+            key={item}
+            className="bg-primary-100 text-primary-800 dark:bg-primary-900/70 dark:text-primary-300 rounded-full px-3 py-1 text-sm flex items-center shadow-sm transition-all duration-200 hover:shadow"
+          >
+            {item}
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((i) => i !== item))}
+              className="ml-1 text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300 focus:outline-none"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddItem} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          id={name}
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          className={`${inputClassName} flex-1`}
+          placeholder="Add a new value"
+        />
+        <button
+          type="submit"
+          className="w-full sm:w-auto btn btn-outline dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700 rounded-md px-4 py-2 transition-all duration-200 hover:shadow flex items-center justify-center"
+          disabled={!newItem.trim()}
+        >
+          Add
+        </button>
+      </form>
+    </>
+  );
+};
+
+// Input for a single field, chosen by its type
+const FieldInput: React.FC<FieldInputProps> = (props) => {
+  const { name, field, value, invalid, onChange } = props;
+  const className = invalid ? invalidInputClassName : inputClassName;
+  const textValue = value === undefined || value === null ? '' : String(value);
+
+  switch (field.type) {
+    case 'date':
+      return <DateInput {...props} />;
+    case 'list':
+      return <ListInput {...props} />;
+    case 'quiz':
+      // A quiz the editor can't read is shown as it is in the file, next to its error, until it's fixed there
+      if (value !== undefined && value !== null && !isQuiz(value)) {
+        return (
+          <pre id={name} className="text-xs font-mono whitespace-pre-wrap break-words rounded-md p-3 border border-red-500 dark:border-red-400 bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300">
+            {JSON.stringify(value, null, 2)}
+          </pre>
+        );
+      }
+      // An empty quiz is removed from the frontmatter
+      return (
+        <QuizEditor
+          questions={value ?? []}
+          onChange={(questions) => onChange(questions.length > 0 ? questions : undefined)}
+        />
+      );
+    case 'text':
+      return (
+        <textarea
+          id={name}
+          name={name}
+          value={textValue}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className={className}
+        />
+      );
+    case 'boolean':
+      return (
+        <div className="flex items-center h-10">
+          <input
+            type="checkbox"
+            id={name}
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:checked:bg-primary-500"
+          />
+          <label htmlFor={name} className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+            {getFieldLabel(name, field)}
+          </label>
+        </div>
+      );
+    case 'enum':
+      return (
+        <select
+          id={name}
+          name={name}
+          value={textValue}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className={className}
+        >
+          {(!field.required || !textValue) && <option value="">Select...</option>}
+          {/* Keep an unexpected value visible instead of silently replacing it */}
+          {textValue && !field.options?.includes(textValue) && <option value={textValue}>{textValue}</option>}
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          id={name}
+          name={name}
+          value={textValue}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          className={className}
+        />
+      );
+    case 'image':
+      return (
+        <input
+          type="text"
+          id={name}
+          name={name}
+          value={textValue}
+          className={className}
+          readOnly
+        />
+      );
+    default:
+      return (
+        <input
+          type={field.type === 'url' ? 'url' : 'text'}
+          id={name}
+          name={name}
+          value={textValue}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.type === 'url' ? 'https://' : undefined}
+          className={className}
+        />
+      );
+  }
+};
+
+const MetadataEditor: React.FC<MetadataEditorProps> = ({
+  frontmatter,
+  schema = DEFAULT_FRONTMATTER_SCHEMA,
+  fieldErrors = [],
+  originalSlug,
+  onChange,
+}) => {
+  // Errors from the last save first, then problems in the current values; a new slug must be a valid file name
+  const errors = useMemo(() => {
+    const messages: Record<string, string> = {};
+    const renamed = originalSlug !== undefined && frontmatter.slug !== originalSlug;
+    [
+      ...fieldErrors,
+      ...(renamed && frontmatter.slug && !isValidSlug(frontmatter.slug)
+        ? [{ field: 'slug', message: 'Use lowercase letters, numbers and hyphens only' }]
+        : []),
+      ...validateFrontmatter(frontmatter, schema, originalSlug),
+    ].forEach(error => {
+      if (!messages[error.field]) {
+        messages[error.field] = error.message;
+      }
     });
+    return messages;
+  }, [frontmatter, schema, fieldErrors, originalSlug]);
+
+  // Fields in the post that the schema doesn't describe are saved unchanged
+  const otherFields = Object.keys(frontmatter).filter(name => !schema.fields[name]);
+
+  // Help text under a field: the slug explains renames, images point to the Images tab
+  const renderHint = (name: string, field: FrontmatterFieldSchema) => {
+    if (name === 'slug' && originalSlug && frontmatter.slug !== originalSlug) {
+      return (
+        <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+          Saving will rename the post and move uploads/{originalSlug}/ to uploads/{frontmatter.slug}/, updating all image paths
+        </p>
+      );
+    }
+
+    const hint = field.description
+      || (name === 'slug' || field.type === 'slug' ? 'Used for URL and file naming'
+        : field.type === 'date' ? 'Format: DD/MM/YYYY (e.g., 25/12/2023)'
+        : field.type === 'image' ? `To change the ${getFieldLabel(name, field).toLowerCase()}, use the Images tab`
+        : null);
+
+    return hint ? (
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-300">
+        {hint}
+      </p>
+    ) : null;
   };
 
   return (
@@ -87,209 +313,52 @@ const MetadataEditor: React.FC<MetadataEditorProps> = ({
         </svg>
         Edit Metadata
       </h2>
-      
+
+      {schema.errors && schema.errors.length > 0 && (
+        <div className="mb-6 bg-amber-50 dark:bg-amber-900/20 border border-amber-400 dark:border-amber-600 text-amber-800 dark:text-amber-200 px-4 py-3 rounded text-sm">
+          <p className="font-medium">Problems in frontmatter.schema.json</p>
+          <ul className="list-disc list-inside mt-1">
+            {schema.errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Title with Featured Checkbox */}
-        <div className="md:col-span-2">
-          <div className="flex justify-between items-center mb-1">
-            <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Title
-            </label>
-            <div className="flex items-center">
-              <input
-                type="checkbox"
-                id="featured"
-                checked={frontmatter.featured || false}
-                onChange={(e) => onChange({ featured: e.target.checked })}
-                className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:checked:bg-primary-500"
-              />
-              <label htmlFor="featured" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-                Featured Post
+        {Object.entries(schema.fields).map(([name, field]) => (
+          // The title reads best on its own line
+          <div key={name} className={FULL_WIDTH_TYPES.includes(field.type) || name === 'title' ? 'md:col-span-2' : ''}>
+            {field.type !== 'boolean' && (
+              <label htmlFor={name} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {getFieldLabel(name, field)}
+                {field.required && <span className="text-red-500 ml-0.5">*</span>}
               </label>
-            </div>
-          </div>
-          <input
-            type="text"
-            id="title"
-            name="title"
-            value={frontmatter.title}
-            onChange={handleInputChange}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-          />
-        </div>
-        
-        {/* Slug */}
-        <div>
-          <label htmlFor="slug" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Slug
-          </label>
-          <input
-            type="text"
-            id="slug"
-            name="slug"
-            value={frontmatter.slug}
-            onChange={handleInputChange}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-          />
-          <p className="mt-1 text-xs text-gray-500 dark:text-gray-300">
-            Used for URL and file naming
-          </p>
-        </div>
-        
-        {/* Date */}
-        <div>
-          <label htmlFor="date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Publication Date (DD/MM/YYYY)
-          </label>
-          <input
-            type="text"
-            id="date"
-            name="date"
-            value={dateInput}
-            onChange={handleDateChange}
-            onBlur={handleDateBlur}
-            placeholder="DD/MM/YYYY"
-            className={`input w-full border rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:outline-none ${
-              dateError 
-                ? 'border-red-500 focus:border-red-500 focus:ring-red-500/20 dark:border-red-400 dark:focus:border-red-400 dark:focus:ring-red-400/20' 
-                : 'border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20'
-            }`}
-          />
-          {dateError ? (
-            <p className="mt-1 text-xs text-red-500 dark:text-red-400">
-              {dateError}
-            </p>
-          ) : (
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-300">
-              Format: DD/MM/YYYY (e.g., 25/12/2023)
-            </p>
-          )}
-        </div>
-        
-        {/* Author */}
-        <div>
-          <label htmlFor="author" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Author
-          </label>
-          <input
-            type="text"
-            id="author"
-            name="author"
-            value={frontmatter.author}
-            onChange={handleInputChange}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-          />
-        </div>
-        
-        {/* Category */}
-        <div>
-          <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Category
-          </label>
-          <input
-            type="text"
-            id="category"
-            name="category"
-            value={frontmatter.category}
-            onChange={handleInputChange}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-          />
-        </div>
-        
-        {/* Tags */}
-        <div className="md:col-span-2">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Tags
-          </label>
-          
-          <div className="flex flex-wrap gap-2 mb-3 max-h-36 overflow-y-auto py-2">
-            {frontmatter.tags.map((tag) => (
-              <div
-                key={tag}
-                className="bg-primary-100 text-primary-800 dark:bg-primary-900/70 dark:text-primary-300 rounded-full px-3 py-1 text-sm flex items-center shadow-sm transition-all duration-200 hover:shadow"
-              >
-                {tag}
-                <button
-                  type="button"
-                  onClick={() => handleRemoveTag(tag)}
-                  className="ml-1 text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300 focus:outline-none"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                  </svg>
-                </button>
-              </div>
-            ))}
-          </div>
-          
-          <form onSubmit={handleAddTag} className="flex flex-col sm:flex-row gap-2">
-            <input
-              type="text"
-              value={newTag}
-              onChange={(e) => setNewTag(e.target.value)}
-              className="input flex-1 border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-              placeholder="Add a new tag"
+            )}
+            <FieldInput
+              name={name}
+              field={field}
+              value={frontmatter[name]}
+              invalid={Boolean(errors[name])}
+              onChange={(value) => onChange({ [name]: value })}
             />
-            <button
-              type="submit"
-              className="w-full sm:w-auto btn btn-outline dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700 rounded-md px-4 py-2 transition-all duration-200 hover:shadow flex items-center justify-center"
-              disabled={!newTag.trim()}
-            >
-              Add
-            </button>
-          </form>
-        </div>
-        
-        {/* Excerpt */}
-        <div className="md:col-span-2">
-          <label htmlFor="excerpt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Excerpt
-          </label>
-          <textarea
-            id="excerpt"
-            name="excerpt"
-            value={frontmatter.excerpt}
-            onChange={handleInputChange}
-            rows={3}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-          />
-        </div>
-        
-        {/* Hero Image Path */}
-        <div className="md:col-span-2">
-          <label htmlFor="heroImage" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Hero Image Path
-          </label>
-          <input
-            type="text"
-            id="heroImage"
-            name="heroImage"
-            value={frontmatter.heroImage}
-            onChange={handleInputChange}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-            readOnly
-          />
-          <p className="mt-1 text-xs text-gray-500 dark:text-gray-300">
-            To change the hero image, use the Images tab
-          </p>
-        </div>
-        
-        {/* Hero Image Prompt */}
-        <div className="md:col-span-2">
-          <label htmlFor="heroImagePrompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Hero Image Generation Prompt (optional)
-          </label>
-          <textarea
-            id="heroImagePrompt"
-            name="heroImagePrompt"
-            value={frontmatter.heroImagePrompt || ''}
-            onChange={handleInputChange}
-            rows={3}
-            className="input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-4 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none"
-            placeholder="AI prompt used to generate this image"
-          />
-        </div>
+            {/* Problems with single questions of a readable quiz are shown next to each question */}
+            {errors[name] && (field.type !== 'quiz' || !isQuiz(frontmatter[name])) ? (
+              <p className="mt-1 text-xs text-red-500 dark:text-red-400">
+                {errors[name]}
+              </p>
+            ) : (
+              renderHint(name, field)
+            )}
+          </div>
+        ))}
       </div>
+
+      {otherFields.length > 0 && (
+        <p className="mt-6 text-xs text-gray-500 dark:text-gray-400">
+          Other fields are kept as they are: {otherFields.join(', ')}
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { BlogPost } from '@/types';
+import Button from '../ui/Button';
+import {
+  buildMergedPost,
+  ConflictChoice,
+  mergeContent,
+  mergeFrontmatter,
+} from '@/utils/postMerge';
+
+interface PostConflictModalProps {
+  base: BlogPost; // The version the editor was opened with
+  theirs: BlogPost; // The version now on disk
+  mine: BlogPost; // The version in the editor
+  onResolve: (merged: BlogPost) => void;
+  onClose: () => void;
+  // Wording for conflicts that don't come from saving in the editor, e.g. a pull
+  description?: string;
+  theirsLabel?: string;
+  mineLabel?: string;
+  resolveLabel?: string;
+  resolveNote?: string;
+}
+
+// Unchanged runs longer than this are collapsed to their first and last lines
+const CONTEXT_LINES = 3;
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '(not set)';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+const ConflictColumn: React.FC<{ title: string; lines: string[]; highlight?: boolean }> = ({ title, lines, highlight }) => (
+  <div className="min-w-0">
+    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{title}</p>
+    <pre className={`text-xs font-mono whitespace-pre-wrap break-words rounded p-2 min-h-[2.5rem] border ${
+      highlight
+        ? 'bg-primary-50 dark:bg-primary-900/20 border-primary-300 dark:border-primary-700'
+        : 'bg-gray-50 dark:bg-gray-900/40 border-gray-200 dark:border-gray-700'
+    } text-gray-800 dark:text-gray-200`}>
+      {lines.length > 0 ? lines.join('\n') : <span className="italic text-gray-400">(removed)</span>}
+    </pre>
+  </div>
+);
+
+const PostConflictModal: React.FC<PostConflictModalProps> = ({
+  base,
+  theirs,
+  mine,
+  onResolve,
+  onClose,
+  description = 'This post was changed on disk after you opened it (for example by a pull or another tab).',
+  theirsLabel = 'Theirs (on disk)',
+  mineLabel = 'Mine',
+  resolveLabel = 'Use Merged Version',
+  resolveNote = 'The merged version replaces the editor content. Review it, then save again.',
+}) => {
+  const segments = useMemo(() => mergeContent(base.content, theirs.content, mine.content), [base, theirs, mine]);
+  const fields = useMemo(() => mergeFrontmatter(base.frontmatter, theirs.frontmatter, mine.frontmatter), [base, theirs, mine]);
+  const [contentChoices, setContentChoices] = useState<Record<number, ConflictChoice>>({});
+  const [fieldChoices, setFieldChoices] = useState<Record<string, Exclude<ConflictChoice, 'both'>>>({});
+
+  const conflictingFields = fields.filter(field => field.conflict);
+  const contentConflictCount = segments.filter(segment => segment.type === 'conflict').length;
+
+  const handleResolve = () => {
+    onResolve(buildMergedPost(mine, segments, contentChoices, fields, fieldChoices));
+  };
+
+  const choiceButtonClassName = (active: boolean) =>
+    `px-3 py-1 text-xs font-medium rounded-md transition-colors duration-200 ${
+      active
+        ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col border dark:border-gray-700">
+        <div className="flex justify-between items-start p-6 border-b dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Resolve Conflicting Changes</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+              {description} Changes made on only one side have been merged; choose a version for each conflict below.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Frontmatter conflicts */}
+          <section>
+            <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-2">
+              Metadata {conflictingFields.length > 0 ? `(${conflictingFields.length} conflicting)` : '- merged automatically'}
+            </h3>
+            {conflictingFields.map(field => {
+              const choice = fieldChoices[field.key] || 'mine';
+              return (
+                <div key={field.key} className="mb-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm font-mono text-gray-700 dark:text-gray-200">{field.key}</p>
+                    <div className="flex space-x-1">
+                      {(['mine', 'theirs'] as const).map(option => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => setFieldChoices(prev => ({ ...prev, [field.key]: option }))}
+                          className={choiceButtonClassName(choice === option)}
+                        >
+                          {option === 'mine' ? 'Keep mine' : 'Use theirs'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <ConflictColumn title="Base" lines={[formatValue(field.base)]} />
+                    <ConflictColumn title={theirsLabel} lines={[formatValue(field.theirs)]} highlight={choice === 'theirs'} />
+                    <ConflictColumn title={mineLabel} lines={[formatValue(field.mine)]} highlight={choice === 'mine'} />
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+
+          {/* Content merge */}
+          <section>
+            <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-2">
+              Content {contentConflictCount > 0 ? `(${contentConflictCount} conflicting)` : '- merged automatically'}
+            </h3>
+            {segments.map((segment, index) => {
+              if (segment.type === 'ok') {
+                // Only show unchanged context around conflicts
+                if (contentConflictCount === 0) return null;
+                const collapsed = segment.lines.length > CONTEXT_LINES * 2;
+                const text = collapsed
+                  ? [
+                      ...segment.lines.slice(0, CONTEXT_LINES),
+                      `... ${segment.lines.length - CONTEXT_LINES * 2} unchanged lines ...`,
+                      ...segment.lines.slice(-CONTEXT_LINES),
+                    ].join('\n')
+                  : segment.lines.join('\n');
+                return (
+                  <pre key={index} className="text-xs font-mono whitespace-pre-wrap break-words text-gray-500 dark:text-gray-400 px-2 py-1">
+                    {text}
+                  </pre>
+                );
+              }
+
+              const choice = contentChoices[index] || 'mine';
+              return (
+                <div key={index} className="my-3 p-3 border border-amber-300 dark:border-amber-700 rounded-lg bg-amber-50/50 dark:bg-amber-900/10">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-amber-800 dark:text-amber-200">Conflict</p>
+                    <div className="flex space-x-1">
+                      {(['mine', 'theirs', 'both'] as const).map(option => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => setContentChoices(prev => ({ ...prev, [index]: option }))}
+                          className={choiceButtonClassName(choice === option)}
+                        >
+                          {option === 'mine' ? 'Keep mine' : option === 'theirs' ? 'Use theirs' : 'Keep both'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <ConflictColumn title="Base" lines={segment.base} />
+                    <ConflictColumn title={theirsLabel} lines={segment.theirs} highlight={choice !== 'mine'} />
+                    <ConflictColumn title={mineLabel} lines={segment.mine} highlight={choice !== 'theirs'} />
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-6 border-t dark:border-gray-700">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {resolveNote}
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button type="button" onClick={onClose} variant="outline" size="md">
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleResolve} variant="primary" size="md">
+              {resolveLabel}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostConflictModal;
@@ -0,0 +1,223 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from '../ui/Button';
+import FileDiffView, { DiffViewMode } from '../FileDiffView';
+import { BlogPost, FileDiff, PostCommit } from '@/types';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+
+interface PostHistoryProps {
+  repoName: string;
+  slug: string;
+  onRestore: (post: BlogPost, commit: PostCommit) => void;
+}
+
+/**
+ * Commits that changed a post, with a diff of the selected version against the saved file
+ */
+const PostHistory: React.FC<PostHistoryProps> = ({ repoName, slug, onRestore }) => {
+  const [commits, setCommits] = useState<PostCommit[]>([]);
+  const [shallow, setShallow] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [deepening, setDeepening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PostCommit | null>(null);
+  const [version, setVersion] = useState<{ post: BlogPost; diff: FileDiff } | null>(null);
+  const [versionLoading, setVersionLoading] = useState(false);
+  const [diffMode, setDiffMode] = useState<DiffViewMode>('unified');
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ repoName, slug });
+      const response = await fetch(`/api/repositories/history?${params}`);
+      const data = await response.json();
+
+      if (data.error) {
+        setError(data.error);
+      } else {
+        setCommits(data.commits);
+        setShallow(data.shallow);
+        setError(null);
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [repoName, slug]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Load the selected version of the post
+  useEffect(() => {
+    setVersion(null);
+    if (!selected) return;
+
+    let cancelled = false;
+    const fetchVersion = async () => {
+      try {
+        setVersionLoading(true);
+        const params = new URLSearchParams({ repoName, slug, commit: selected.hash });
+        const response = await fetch(`/api/repositories/history?${params}`);
+        const data = await response.json();
+
+        if (cancelled) return;
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setVersion(data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError((err as Error).message || 'Failed to load this version');
+        }
+      } finally {
+        if (!cancelled) {
+          setVersionLoading(false);
+        }
+      }
+    };
+
+    fetchVersion();
+    return () => {
+      cancelled = true;
+    };
+  }, [repoName, slug, selected]);
+
+  const handleDeepen = async () => {
+    try {
+      setDeepening(true);
+      const response = await fetch(`/api/repositories/deepen`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        setError(data.error);
+      } else {
+        await loadHistory();
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to fetch older history');
+    } finally {
+      setDeepening(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Commits */}
+        <div className="border rounded-lg dark:border-gray-700 flex flex-col">
+          <p className="px-3 py-2 border-b dark:border-gray-700 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Commits
+          </p>
+          {loading ? (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+          ) : commits.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">This post hasn&apos;t been committed yet.</p>
+          ) : (
+            <ul className="overflow-y-auto max-h-[32rem]">
+              {commits.map(commit => (
+                <li key={commit.hash}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(commit)}
+                    className={`w-full text-left px-3 py-2 border-b last:border-b-0 dark:border-gray-700 ${
+                      selected?.hash === commit.hash
+                        ? 'bg-primary-50 dark:bg-primary-900/20'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <p className="text-sm text-gray-800 dark:text-gray-100 truncate">{commit.message}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {commit.author} · {formatDateForDisplay(commit.date)} · <span className="font-mono">{commit.hash.slice(0, 7)}</span>
+                    </p>
+                    {commit.shallowBoundary && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">Oldest fetched commit; it may not have changed this post</p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {shallow && !loading && (
+            <div className="px-3 py-2 border-t dark:border-gray-700">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                This clone doesn&apos;t have the full history, so older commits may be missing.
+              </p>
+              <Button size="sm" variant="outline" onClick={handleDeepen} isLoading={deepening} disabled={deepening} fullWidth>
+                Load older history
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Selected version */}
+        <div className="lg:col-span-2 border rounded-lg dark:border-gray-700 flex flex-col min-h-[16rem]">
+          {!selected ? (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">Pick a commit to compare it with the saved post.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 border-b dark:border-gray-700">
+                <p className="text-sm text-gray-700 dark:text-gray-200">
+                  Changes since <span className="font-mono">{selected.hash.slice(0, 7)}</span> in the saved post
+                </p>
+                <div className="flex items-center space-x-1">
+                  {(['unified', 'split'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setDiffMode(mode)}
+                      className={`px-2 py-0.5 text-xs font-medium rounded-md transition-colors duration-200 ${
+                        diffMode === mode
+                          ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                          : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {mode === 'unified' ? 'Unified' : 'Side by side'}
+                    </button>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    className="ml-2"
+                    disabled={!version}
+                    onClick={() => version && onRestore(version.post, selected)}
+                  >
+                    Restore this version
+                  </Button>
+                </div>
+              </div>
+              <div className="flex-1 overflow-auto">
+                {versionLoading ? (
+                  <p className="p-3 text-sm text-gray-500 dark:text-gray-400">Loading version...</p>
+                ) : version ? (
+                  version.diff.oldContent === version.diff.newContent ? (
+                    <p className="p-3 text-sm text-gray-500 dark:text-gray-400">The saved post is the same as this version.</p>
+                  ) : (
+                    <FileDiffView diff={version.diff} mode={diffMode} />
+                  )
+                ) : null}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostHistory;
@@ -2,6 +2,7 @@ import React from 'react';
 import Image from 'next/image';
 import { BlogPost } from '@/types';
 import { formatDateForDisplay } from '@/utils/dateUtils';
+import MdxRenderer from './MdxRenderer';
 
 interface PreviewModalProps {
   post: BlogPost;
@@ -10,44 +11,6 @@ interface PreviewModalProps {
 }
 
 const PreviewModal: React.FC<PreviewModalProps> = ({ post, repoName, onClose }) => {
-  // Function to render markdown content (simplified version)
-  const renderContent = (content: string) => {
-    // Convert markdown to HTML (very simplified)
-    let html = content
-      // Handle headers
-      .replace(/^### (.*$)/gim, '<h3 class="text-xl font-semibold mt-6 mb-2">$1</h3>')
-      .replace(/^## (.*$)/gim, '<h2 class="text-2xl font-semibold mt-8 mb-3">$1</h2>')
-      .replace(/^# (.*$)/gim, '<h1 class="text-3xl font-bold mt-8 mb-4">$1</h1>')
-      // Handle bold
-      .replace(/\*\*(.*?)\*\*/gim, '<strong>$1</strong>')
-      // Handle italic
-      .replace(/\*(.*?)\*/gim, '<em>$1</em>')
-      // Handle links
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/gim, '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-primary-600 hover:underline">$1</a>')
-      // Handle images - replace image paths to use the API route
-      .replace(/!\[(.*?)\]\((\/images\/uploads\/[^\)]+)\)/gim, `<img src="/api/image?repoName=${repoName}&imagePath=$2" alt="$1" class="max-w-full h-auto rounded-lg my-6" />`)
-      // Handle code blocks
-      .replace(/```([\s\S]*?)```/gi, '<pre class="bg-gray-100 rounded-md p-4 my-4 overflow-x-auto"><code>$1</code></pre>')
-      // Handle inline code
-      .replace(/`(.*?)`/gim, '<code class="bg-gray-100 rounded px-1">$1</code>')
-      // Handle blockquotes
-      .replace(/^\> (.*$)/gim, '<blockquote class="border-l-4 border-gray-300 pl-4 py-2 my-4 text-gray-700">$1</blockquote>')
-      // Handle unordered lists
-      .replace(/^\- (.*$)/gim, '<li>$1</li>')
-      // Handle paragraphs
-      .split(/\n\n/).join('</p><p class="my-4">');
-
-    // Wrap in paragraph tags
-    html = '<p class="my-4">' + html + '</p>';
-    
-    // Fix lists
-    html = html.replace(/<li>(.*?)<\/li>/gi, '<ul class="list-disc pl-5 my-4"><li>$1</li></ul>');
-    
-    // Using 'gi' flags instead of 'gim' for better compatibility
-
-    return html;
-  };
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center overflow-auto p-4">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-auto">
@@ -110,10 +73,9 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ post, repoName, onClose })
           </div>
 
           {/* Post Content */}
-          <div 
-            className="prose max-w-none mdx-content"
-            dangerouslySetInnerHTML={{ __html: renderContent(post.content) }}
-          />
+          <div className="prose max-w-none mdx-content">
+            <MdxRenderer content={post.content} repoName={repoName} />
+          </div>
         </div>
       </div>
     </div>
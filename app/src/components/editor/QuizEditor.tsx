@@ -0,0 +1,176 @@
+import React from 'react';
+import { QuizQuestion } from '@/types';
+import { getQuizQuestionErrors } from '@/utils/frontmatterSchema';
+import Button from '../ui/Button';
+
+interface QuizEditorProps {
+  questions: QuizQuestion[];
+  onChange: (questions: QuizQuestion[]) => void;
+}
+
+const inputClassName = 'input w-full border border-gray-300 dark:bg-gray-700 dark:text-white dark:border-gray-600 rounded-md px-3 py-2 transition-all duration-200 shadow-sm focus:shadow-md focus:border-primary-500 focus:dark:border-primary-400 focus:ring-2 focus:ring-primary-500/20 focus:dark:ring-primary-400/20 focus:outline-none';
+const iconButtonClassName = 'p-1.5 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors duration-200 disabled:opacity-40 disabled:pointer-events-none';
+
+const NEW_QUESTION: QuizQuestion = { q: '', options: ['', ''], answer: 0 };
+
+/**
+ * Quiz questions with their options; the correct answer is picked with the radio button next to an option
+ */
+const QuizEditor: React.FC<QuizEditorProps> = ({ questions, onChange }) => {
+  const updateQuestion = (index: number, changes: Partial<QuizQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const reordered = [...questions];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index];
+    updateQuestion(index, { options: question.options.map((option, i) => (i === optionIndex ? value : option)) });
+  };
+
+  // Keep the answer pointing at the same option; removing the answer itself leaves it to be chosen again
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    let answer = question.answer;
+    if (optionIndex < answer) {
+      answer -= 1;
+    } else if (optionIndex === answer) {
+      answer = -1;
+    }
+    updateQuestion(index, { options: question.options.filter((_, i) => i !== optionIndex), answer });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This post has no quiz.</p>
+      )}
+
+      {questions.map((question, index) => {
+        const errors = getQuizQuestionErrors(question);
+        return (
+          <div
+            key={index}
+            className={`p-4 rounded-lg border ${
+              errors.length > 0 ? 'border-red-300 dark:border-red-700' : 'border-gray-200 dark:border-gray-700'
+            } bg-gray-50 dark:bg-gray-900/30`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Question {index + 1}</p>
+              <div className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => moveQuestion(index, -1)}
+                  disabled={index === 0}
+                  className={iconButtonClassName}
+                  title="Move up"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveQuestion(index, 1)}
+                  disabled={index === questions.length - 1}
+                  className={iconButtonClassName}
+                  title="Move down"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeQuestion(index)}
+                  className={`${iconButtonClassName} hover:text-red-600 dark:hover:text-red-400`}
+                  title="Remove question"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            <input
+              type="text"
+              value={question.q}
+              onChange={(e) => updateQuestion(index, { q: e.target.value })}
+              placeholder="Question"
+              className={`${inputClassName} mb-3`}
+            />
+
+            <div className="space-y-2">
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name={`quiz-${index}-answer`}
+                    checked={question.answer === optionIndex}
+                    onChange={() => updateQuestion(index, { answer: optionIndex })}
+                    className="w-4 h-4 text-primary-600 focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600"
+                    title="Correct answer"
+                  />
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                    placeholder={`Option ${optionIndex + 1}`}
+                    className={`${inputClassName} flex-1`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeOption(index, optionIndex)}
+                    className={iconButtonClassName}
+                    title="Remove option"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between mt-3">
+              <button
+                type="button"
+                onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+                className="text-sm text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+              >
+                + Add option
+              </button>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Select the correct answer with the radio button</p>
+            </div>
+
+            {errors.length > 0 && (
+              <p className="mt-2 text-xs text-red-500 dark:text-red-400">
+                {errors.join('. ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...questions, { ...NEW_QUESTION, options: [...NEW_QUESTION.options] }])}
+      >
+        Add Question
+      </Button>
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+import { EditorView } from '@codemirror/view';
+import ContentEditor from './ContentEditor';
+import MdxPreview from './MdxPreview';
+import {
+  collectSourceBlocks,
+  isScrolledToBottom,
+  lineForPreviewOffset,
+  previewOffsetForLine,
+  scrollEditorToLine,
+  topVisibleEditorLine,
+} from './scrollSync';
+
+interface SplitPaneEditorProps {
+  content: string;
+  onChange: (content: string) => void;
+  repoName: string;
+  slug: string;
+}
+
+// How long to ignore scroll events on a pane after scrolling it programmatically
+const SYNC_SETTLE_MS = 80;
+
+/**
+ * Editor and live preview side by side, with their scroll positions kept in sync
+ */
+const SplitPaneEditor: React.FC<SplitPaneEditorProps> = ({ content, onChange, repoName, slug }) => {
+  const editorViewRef = useRef<EditorView | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const view = editorViewRef.current;
+    const preview = previewRef.current;
+    if (!view || !preview) return;
+
+    const editorScroller = view.scrollDOM;
+    // Scroll events caused by our own syncing are ignored until this time
+    const ignoreUntil = { editor: 0, preview: 0 };
+
+    const syncPreview = () => {
+      if (Date.now() < ignoreUntil.editor) return;
+
+      ignoreUntil.preview = Date.now() + SYNC_SETTLE_MS;
+      if (isScrolledToBottom(editorScroller)) {
+        preview.scrollTop = preview.scrollHeight;
+        return;
+      }
+      const line = topVisibleEditorLine(view);
+      preview.scrollTop = previewOffsetForLine(
+        collectSourceBlocks(preview),
+        line,
+        view.state.doc.lines,
+        preview.scrollHeight
+      );
+    };
+
+    const syncEditor = () => {
+      if (Date.now() < ignoreUntil.preview) return;
+
+      ignoreUntil.editor = Date.now() + SYNC_SETTLE_MS;
+      if (isScrolledToBottom(preview)) {
+        editorScroller.scrollTop = editorScroller.scrollHeight;
+        return;
+      }
+      const line = lineForPreviewOffset(
+        collectSourceBlocks(preview),
+        preview.scrollTop,
+        view.state.doc.lines,
+        preview.scrollHeight
+      );
+      scrollEditorToLine(view, line);
+    };
+
+    editorScroller.addEventListener('scroll', syncPreview, { passive: true });
+    preview.addEventListener('scroll', syncEditor, { passive: true });
+
+    return () => {
+      editorScroller.removeEventListener('scroll', syncPreview);
+      preview.removeEventListener('scroll', syncEditor);
+    };
+  }, []);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 lg:divide-x dark:divide-gray-700">
+      <div className="min-w-0">
+        <ContentEditor
+          content={content}
+          onChange={onChange}
+          repoName={repoName}
+          slug={slug}
+          viewRef={editorViewRef}
+        />
+      </div>
+      <div className="min-w-0">
+        <MdxPreview content={content} repoName={repoName} scrollRef={previewRef} />
+      </div>
+    </div>
+  );
+};
+
+export default SplitPaneEditor;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Button from '../ui/Button';
+
+interface UploadedImagePickerProps {
+  repoName: string;
+  slug: string;
+  onClose: () => void;
+  onSelect: (imagePath: string, altText: string) => void;
+}
+
+// Suggest alt text from the file name, e.g. /images/uploads/post/my-diagram.png -> "my diagram"
+const altTextFromPath = (imagePath: string) =>
+  (imagePath.split('/').pop() || '')
+    .replace(/\.[^.]+$/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+
+const UploadedImagePicker: React.FC<UploadedImagePickerProps> = ({
+  repoName,
+  slug,
+  onClose,
+  onSelect,
+}) => {
+  const [images, setImages] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [altText, setAltText] = useState('');
+
+  // Load the images in this post's uploads folder
+  useEffect(() => {
+    const loadImages = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/images/uploads?repoName=${encodeURIComponent(repoName)}&slug=${encodeURIComponent(slug)}`);
+        const data = await response.json();
+
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setImages(data.images || []);
+        }
+      } catch (err) {
+        setError((err as Error).message || 'Failed to load images');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadImages();
+  }, [repoName, slug]);
+
+  const handleImageClick = (imagePath: string) => {
+    setSelectedImage(imagePath);
+    setAltText(altTextFromPath(imagePath));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedImage) return;
+    onSelect(selectedImage, altText.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl p-6 border dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Insert Image</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="max-h-80 overflow-y-auto mb-4">
+            {loading ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading images...</p>
+            ) : images.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No images in uploads/{slug}/ yet. Add images from the Images tab first.
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {images.map(imagePath => (
+                  <button
+                    key={imagePath}
+                    type="button"
+                    onClick={() => handleImageClick(imagePath)}
+                    className={`text-left rounded-lg border-2 overflow-hidden transition-colors duration-200 ${
+                      selectedImage === imagePath
+                        ? 'border-primary-500 dark:border-primary-400'
+                        : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                    }`}
+                  >
+                    <Image
+                      src={`/api/image?repoName=${repoName}&imagePath=${imagePath}`}
+                      alt={altTextFromPath(imagePath)}
+                      width={0}
+                      height={0}
+                      sizes="33vw"
+                      unoptimized
+                      className="w-full h-28 object-cover bg-gray-100 dark:bg-gray-700"
+                    />
+                    <p className="text-xs font-mono truncate px-2 py-1 text-gray-600 dark:text-gray-300">
+                      {imagePath.split('/').pop()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="mb-4">
+            <label htmlFor="imageAltText" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Alt Text
+            </label>
+            <input
+              id="imageAltText"
+              type="text"
+              value={altText}
+              onChange={(e) => setAltText(e.target.value)}
+              className="w-full border rounded-lg p-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all duration-200 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:placeholder-gray-400"
+              placeholder="Describe the image..."
+              disabled={!selectedImage}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <Button type="button" onClick={onClose} variant="outline" size="md">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={!selectedImage} size="md">
+              Insert
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default UploadedImagePicker;
@@ -1,10 +1,17 @@
 // Export all editor components
 export { default as ContentEditor } from './ContentEditor';
+export { default as CodeEditor } from './CodeEditor';
+export { default as FormattingToolbar } from './FormattingToolbar';
+export { default as UploadedImagePicker } from './UploadedImagePicker';
 export { default as MetadataEditor } from './MetadataEditor';
+export { default as QuizEditor } from './QuizEditor';
 export { default as ImageManager } from './ImageManager';
 export { default as EditorToolbar } from './EditorToolbar';
 export { default as MdxPreview } from './MdxPreview';
+export { default as SplitPaneEditor } from './SplitPaneEditor';
 export { default as ImageZoomModal } from './ImageZoomModal';
 export { default as PreviewModal } from './PreviewModal';
+export { default as PostConflictModal } from './PostConflictModal';
 export { default as HeroImagePrompt } from './HeroImagePrompt';
 export { default as InBlogImagePrompt } from './InBlogImagePrompt';
+export { default as PostHistory } from './PostHistory';
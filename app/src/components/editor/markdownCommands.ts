@@ -0,0 +1,219 @@
+import { EditorSelection, EditorState, Line } from '@codemirror/state';
+import { EditorView, KeyBinding } from '@codemirror/view';
+
+// Wrap each selection in a marker (e.g. ** for bold), or remove the marker when it's already there
+const toggleInlineMarker = (marker: string, placeholderText: string) => (view: EditorView): boolean => {
+  const { state } = view;
+  const transaction = state.changeByRange(range => {
+    const before = state.sliceDoc(range.from - marker.length, range.from);
+    const after = state.sliceDoc(range.to, range.to + marker.length);
+
+    // Already wrapped: unwrap
+    if (before === marker && after === marker) {
+      return {
+        changes: [
+          { from: range.from - marker.length, to: range.from },
+          { from: range.to, to: range.to + marker.length },
+        ],
+        range: EditorSelection.range(range.from - marker.length, range.to - marker.length),
+      };
+    }
+
+    const text = range.empty ? placeholderText : state.sliceDoc(range.from, range.to);
+    return {
+      changes: { from: range.from, to: range.to, insert: `${marker}${text}${marker}` },
+      range: EditorSelection.range(range.from + marker.length, range.from + marker.length + text.length),
+    };
+  });
+
+  view.dispatch(transaction, { scrollIntoView: true, userEvent: 'input' });
+  view.focus();
+  return true;
+};
+
+// Lines touched by the current selections, each line once
+const selectedLines = (state: EditorState): Line[] => {
+  const lines: Line[] = [];
+  let lastLine = -1;
+  for (const range of state.selection.ranges) {
+    const first = state.doc.lineAt(range.from).number;
+    const last = state.doc.lineAt(range.to).number;
+    for (let number = Math.max(first, lastLine + 1); number <= last; number++) {
+      lines.push(state.doc.line(number));
+      lastLine = number;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Toggle a prefix on every selected line (headings, lists, blockquotes)
+ * If all lines already have the prefix it is removed; otherwise any other block prefix is replaced
+ */
+const toggleLinePrefix = (
+  prefix: (index: number) => string,
+  matcher: RegExp
+) => (view: EditorView): boolean => {
+  const { state } = view;
+  const lines = selectedLines(state);
+  const allPrefixed = lines.every((line, index) => line.text.startsWith(prefix(index)));
+
+  const changes = lines.map((line, index) => {
+    const existing = line.text.match(matcher)?.[0] || '';
+    if (allPrefixed) {
+      return { from: line.from, to: line.from + prefix(index).length };
+    }
+    return { from: line.from, to: line.from + existing.length, insert: prefix(index) };
+  });
+
+  view.dispatch({ changes, scrollIntoView: true, userEvent: 'input' });
+  view.focus();
+  return true;
+};
+
+// Prefixes that mark a line as a heading, list item or quote
+const BLOCK_PREFIX = /^(#{1,6} |[-*+] |\d+\. |> )/;
+
+export const toggleBold = toggleInlineMarker('**', 'bold text');
+export const toggleItalic = toggleInlineMarker('_', 'italic text');
+
+export const toggleHeading = (level: number) =>
+  toggleLinePrefix(() => `${'#'.repeat(level)} `, BLOCK_PREFIX);
+
+export const toggleBulletList = toggleLinePrefix(() => '- ', BLOCK_PREFIX);
+export const toggleOrderedList = toggleLinePrefix(index => `${index + 1}. `, BLOCK_PREFIX);
+export const toggleBlockquote = toggleLinePrefix(() => '> ', BLOCK_PREFIX);
+
+// Insert a block on its own lines, separated from the surrounding text by blank lines
+const insertBlock = (view: EditorView, block: string, selectFrom: number, selectTo: number) => {
+  const { state } = view;
+  const range = state.selection.main;
+  const lineBefore = state.doc.lineAt(range.from);
+  const lineAfter = state.doc.lineAt(range.to);
+  const atLineStart = range.from === lineBefore.from;
+  const previousLineBlank = lineBefore.number === 1 || state.doc.line(lineBefore.number - 1).text.trim() === '';
+  const leading = !atLineStart ? '\n\n' : previousLineBlank ? '' : '\n';
+  const trailing = range.to < lineAfter.to ? '\n\n' : '\n';
+  const insert = `${leading}${block}${trailing}`;
+  const start = range.from + leading.length;
+
+  view.dispatch({
+    changes: { from: range.from, to: range.to, insert },
+    selection: EditorSelection.range(start + selectFrom, start + selectTo),
+    scrollIntoView: true,
+    userEvent: 'input',
+  });
+  view.focus();
+};
+
+export const insertCodeBlock = (view: EditorView): boolean => {
+  const range = view.state.selection.main;
+  const code = range.empty ? 'code' : view.state.sliceDoc(range.from, range.to);
+  // Select the code so it can be typed over
+  insertBlock(view, `\`\`\`\n${code}\n\`\`\``, 4, 4 + code.length);
+  return true;
+};
+
+export const insertTable = (view: EditorView): boolean => {
+  const table = [
+    '| Column 1 | Column 2 |',
+    '| -------- | -------- |',
+    '| Cell     | Cell     |',
+  ].join('\n');
+  // Select the first header so it can be typed over
+  insertBlock(view, table, 2, 10);
+  return true;
+};
+
+/**
+ * Turn the selection into a link and select the URL placeholder
+ * A selected URL becomes the link target instead of the link text
+ */
+export const insertLink = (view: EditorView): boolean => {
+  const { state } = view;
+  const range = state.selection.main;
+  const selected = state.sliceDoc(range.from, range.to);
+  const isUrl = /^https?:\/\/\S+$/.test(selected);
+  const text = isUrl || !selected ? 'link text' : selected;
+  const url = isUrl ? selected : 'https://';
+  const insert = `[${text}](${url})`;
+
+  const selection = isUrl || !selected
+    ? EditorSelection.range(range.from + 1, range.from + 1 + text.length)
+    : EditorSelection.range(range.from + text.length + 3, range.from + text.length + 3 + url.length);
+
+  view.dispatch({
+    changes: { from: range.from, to: range.to, insert },
+    selection,
+    scrollIntoView: true,
+    userEvent: 'input',
+  });
+  view.focus();
+  return true;
+};
+
+// Insert an image reference at the cursor, using the selection as alt text when there is one
+export const insertImage = (view: EditorView, imagePath: string, altText: string): boolean => {
+  const range = view.state.selection.main;
+  const alt = range.empty ? altText : view.state.sliceDoc(range.from, range.to);
+  const insert = `![${alt}](${imagePath})`;
+
+  view.dispatch({
+    changes: { from: range.from, to: range.to, insert },
+    selection: EditorSelection.range(range.from + 2, range.from + 2 + alt.length),
+    scrollIntoView: true,
+    userEvent: 'input',
+  });
+  view.focus();
+  return true;
+};
+
+// Shortcut labels shown in the toolbar tooltips, keyed by the CodeMirror key name
+export const FORMATTING_SHORTCUTS = {
+  bold: 'Mod-b',
+  italic: 'Mod-i',
+  heading1: 'Mod-Alt-1',
+  heading2: 'Mod-Alt-2',
+  heading3: 'Mod-Alt-3',
+  bulletList: 'Mod-Shift-8',
+  orderedList: 'Mod-Shift-7',
+  blockquote: 'Mod-Shift-9',
+  codeBlock: 'Mod-Alt-c',
+  link: 'Mod-k',
+  table: 'Mod-Alt-t',
+  image: 'Mod-Alt-i',
+};
+
+/**
+ * Keyboard shortcuts for the formatting commands
+ * Opening the image picker needs the React side, so it is passed in
+ */
+export const createFormattingKeymap = (onInsertImage: () => void): KeyBinding[] => [
+  { key: FORMATTING_SHORTCUTS.bold, run: toggleBold },
+  { key: FORMATTING_SHORTCUTS.italic, run: toggleItalic },
+  { key: FORMATTING_SHORTCUTS.heading1, run: toggleHeading(1) },
+  { key: FORMATTING_SHORTCUTS.heading2, run: toggleHeading(2) },
+  { key: FORMATTING_SHORTCUTS.heading3, run: toggleHeading(3) },
+  { key: FORMATTING_SHORTCUTS.bulletList, run: toggleBulletList },
+  { key: FORMATTING_SHORTCUTS.orderedList, run: toggleOrderedList },
+  { key: FORMATTING_SHORTCUTS.blockquote, run: toggleBlockquote },
+  { key: FORMATTING_SHORTCUTS.codeBlock, run: insertCodeBlock },
+  { key: FORMATTING_SHORTCUTS.link, run: insertLink },
+  { key: FORMATTING_SHORTCUTS.table, run: insertTable },
+  {
+    key: FORMATTING_SHORTCUTS.image,
+    run: () => {
+      onInsertImage();
+      return true;
+    },
+  },
+];
+
+// Human readable shortcut for tooltips, e.g. Mod-Shift-8 -> Ctrl+Shift+8 (Cmd on macOS)
+export const formatShortcut = (key: string): string => {
+  const isMac = typeof navigator !== 'undefined' && /Mac|iP(hone|[oa]d)/.test(navigator.platform);
+  return key
+    .split('-')
+    .map(part => (part === 'Mod' ? (isMac ? 'Cmd' : 'Ctrl') : part.length === 1 ? part.toUpperCase() : part))
+    .join('+');
+};
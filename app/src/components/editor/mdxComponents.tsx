@@ -0,0 +1,254 @@
+import React from 'react';
+import Image from 'next/image';
+import { ComponentManifest } from '@/types';
+
+// Props passed by MDX to a component - arbitrary attributes plus children
+export type MdxComponentProps = Record<string, unknown> & { children?: React.ReactNode };
+export type MdxComponentMap = Record<string, React.ComponentType<MdxComponentProps>>;
+
+/**
+ * Convert an image path from the MDX content to a URL the preview can load
+ * /images/uploads/... paths are served from the repository through the image API
+ */
+export const resolvePreviewImageSrc = (src: string, repoName: string): string => {
+  if (src.startsWith('/images/uploads/')) {
+    return `/api/image?repoName=${repoName}&imagePath=${src}`;
+  }
+  return src;
+};
+
+/**
+ * Placeholder rendered for JSX components the preview registry doesn't know about
+ */
+export const createMissingComponentStub = (name: string): React.ComponentType<MdxComponentProps> => {
+  const MissingComponentStub: React.FC<MdxComponentProps> = ({ children, ...props }) => {
+    const attributes = Object.entries(props)
+      .filter(([, value]) => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')
+      .map(([key, value]) => `${key}="${String(value)}"`)
+      .join(' ');
+
+    return (
+      <div className="not-prose my-4 border border-dashed border-amber-400 dark:border-amber-600 rounded-lg bg-amber-50 dark:bg-amber-900/20 p-3">
+        <p className="text-xs font-mono text-amber-700 dark:text-amber-300 mb-1">
+          &lt;{name}{attributes ? ` ${attributes}` : ''}&gt; (no preview available)
+        </p>
+        {children && <div className="text-sm text-gray-700 dark:text-gray-200">{children}</div>}
+      </div>
+    );
+  };
+  MissingComponentStub.displayName = `MissingComponentStub(${name})`;
+  return MissingComponentStub;
+};
+
+// Matches {{name}} placeholders in component templates
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w$-]+)\s*\}\}/g;
+
+// HTML attribute names that differ in React
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  allowfullscreen: 'allowFullScreen',
+  frameborder: 'frameBorder',
+};
+
+// Replace {{name}} placeholders with prop values, unknown props become empty strings
+const fillPlaceholders = (text: string, props: Record<string, unknown>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+    const value = props[key];
+    return value === undefined || value === null || typeof value === 'object' ? '' : String(value);
+  });
+
+// Convert an inline style attribute into a React style object
+const parseStyleAttribute = (style: string): React.CSSProperties =>
+  style.split(';').reduce<Record<string, string>>((styles, declaration) => {
+    const [property, ...value] = declaration.split(':');
+    if (property && property.trim() && value.length > 0) {
+      const key = property.trim().replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+      styles[key] = value.join(':').trim();
+    }
+    return styles;
+  }, {});
+
+// Convert a parsed template node into React elements, inserting children at {{children}}
+const templateNodeToReact = (
+  node: Node,
+  props: Record<string, unknown>,
+  children: React.ReactNode,
+  key: string
+): React.ReactNode => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const parts = (node.textContent || '').split(/\{\{\s*children\s*\}\}/);
+    return parts.map((part, index) => (
+      <React.Fragment key={`${key}-${index}`}>
+        {fillPlaceholders(part, props)}
+        {index < parts.length - 1 && children}
+      </React.Fragment>
+    ));
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return null;
+  }
+
+  const element = node as Element;
+  const tagName = element.tagName.toLowerCase();
+
+  // Templates only describe markup - never run scripts from a repository
+  if (tagName === 'script') {
+    return null;
+  }
+
+  const elementProps: Record<string, unknown> = { key };
+  Array.from(element.attributes).forEach(attribute => {
+    const name = attribute.name.toLowerCase();
+    if (name.startsWith('on')) return;
+
+    const value = fillPlaceholders(attribute.value, props);
+    if (name === 'style') {
+      elementProps.style = parseStyleAttribute(value);
+    } else {
+      elementProps[ATTRIBUTE_NAMES[name] || attribute.name] = value;
+    }
+  });
+
+  const childNodes = Array.from(element.childNodes).map((child, index) =>
+    templateNodeToReact(child, props, children, `${key}-${index}`)
+  );
+
+  return React.createElement(tagName, elementProps, ...(childNodes.length > 0 ? childNodes : []));
+};
+
+/**
+ * Build a preview component from an HTML template declared in a repository's components manifest
+ * {{prop}} placeholders are filled from the component's props and {{children}} marks where the children go
+ */
+export const createTemplateComponent = (
+  name: string,
+  template: string,
+  defaults: Record<string, unknown> = {}
+): React.ComponentType<MdxComponentProps> => {
+  const TemplateComponent: React.FC<MdxComponentProps> = ({ children, ...props }) => {
+    // Templates are parsed with the browser's HTML parser, the preview only renders on the client
+    if (typeof DOMParser === 'undefined') {
+      return null;
+    }
+
+    const parsed = new DOMParser().parseFromString(template, 'text/html');
+    const values = { ...defaults, ...props };
+
+    return (
+      <>
+        {Array.from(parsed.body.childNodes).map((node, index) =>
+          templateNodeToReact(node, values, children, `${name}-${index}`)
+        )}
+      </>
+    );
+  };
+  TemplateComponent.displayName = `TemplateComponent(${name})`;
+  return TemplateComponent;
+};
+
+// Callout box used across our blogs for notes, tips and warnings
+const Callout: React.FC<MdxComponentProps> = ({ children, type = 'info', title }) => {
+  const styles: Record<string, string> = {
+    info: 'border-blue-500 bg-blue-50 dark:bg-blue-900/20',
+    tip: 'border-green-500 bg-green-50 dark:bg-green-900/20',
+    warning: 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20',
+    danger: 'border-red-500 bg-red-50 dark:bg-red-900/20',
+  };
+
+  return (
+    <div className={`not-prose my-4 border-l-4 rounded-md p-4 text-gray-800 dark:text-gray-200 ${styles[String(type)] || styles.info}`}>
+      {typeof title === 'string' && <p className="font-semibold mb-1">{title}</p>}
+      <div className="text-sm">{children}</div>
+    </div>
+  );
+};
+
+// YouTube embed by video id
+const YouTube: React.FC<MdxComponentProps> = ({ id }) => (
+  <div className="my-4 aspect-video">
+    <iframe
+      className="w-full h-full rounded-lg"
+      src={`https://www.youtube.com/embed/${String(id)}`}
+      title="YouTube video"
+      allowFullScreen
+    />
+  </div>
+);
+
+/**
+ * Build the component registry used to render MDX in the preview.
+ * Covers the standard Markdown elements that need app-specific handling and our custom blog components.
+ */
+export const createMdxComponents = (repoName: string): MdxComponentMap => {
+  const PreviewImage: React.FC<MdxComponentProps> = ({ src, alt }) => (
+    <Image
+      src={resolvePreviewImageSrc(String(src || ''), repoName)}
+      alt={String(alt || '')}
+      width={0}
+      height={0}
+      sizes="100vw"
+      unoptimized
+      className="w-full h-auto rounded-lg my-4"
+    />
+  );
+
+  const PreviewLink: React.FC<MdxComponentProps> = ({ href, children }) => (
+    <a
+      href={String(href || '')}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-primary-600 dark:text-primary-400 hover:underline"
+    >
+      {children}
+    </a>
+  );
+
+  const PreviewTable: React.FC<MdxComponentProps> = ({ children }) => (
+    <div className="overflow-x-auto my-4">
+      <table>{children}</table>
+    </div>
+  );
+
+  return {
+    img: PreviewImage,
+    a: PreviewLink,
+    table: PreviewTable,
+    Callout,
+    YouTube,
+  };
+};
+
+/**
+ * Add the components declared in a repository's components manifest to the registry.
+ * Manifest entries either reuse a built-in renderer under another name or render an HTML template,
+ * and take precedence over the built-in components of the same name.
+ */
+export const applyComponentManifest = (
+  registry: MdxComponentMap,
+  manifest?: ComponentManifest
+): MdxComponentMap => {
+  if (!manifest) return registry;
+
+  const builtIns = { ...registry };
+  const merged = { ...registry };
+
+  Object.entries(manifest.components).forEach(([name, definition]) => {
+    const defaults = definition.props || {};
+
+    if (definition.template) {
+      merged[name] = createTemplateComponent(name, definition.template, defaults);
+    } else if (definition.renderer && builtIns[definition.renderer]) {
+      const Renderer = builtIns[definition.renderer];
+      const ManifestComponent: React.FC<MdxComponentProps> = props => <Renderer {...defaults} {...props} />;
+      ManifestComponent.displayName = `ManifestComponent(${name})`;
+      merged[name] = ManifestComponent;
+    }
+  });
+
+  return merged;
+};
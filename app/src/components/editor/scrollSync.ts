@@ -0,0 +1,87 @@
+import { EditorView } from '@codemirror/view';
+
+// A rendered preview block and the source line it starts on
+interface SourceBlock {
+  line: number;
+  top: number; // Offset from the top of the preview's scrollable content
+}
+
+/**
+ * Find the rendered blocks tagged with data-source-line by the preview compiler, in document order
+ */
+export const collectSourceBlocks = (container: HTMLElement): SourceBlock[] => {
+  const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+  const blocks: SourceBlock[] = [];
+
+  container.querySelectorAll<HTMLElement>('[data-source-line]').forEach(element => {
+    const line = Number(element.dataset.sourceLine);
+    const top = element.getBoundingClientRect().top - containerTop;
+    // Keep lines and offsets increasing so interpolation stays monotonic
+    const previous = blocks[blocks.length - 1];
+    if (!isNaN(line) && (!previous || (line > previous.line && top >= previous.top))) {
+      blocks.push({ line, top });
+    }
+  });
+
+  return blocks;
+};
+
+// Linear interpolation between two points
+const interpolate = (value: number, from: [number, number], to: [number, number]) => {
+  if (to[0] === from[0]) return from[1];
+  return from[1] + ((value - from[0]) / (to[0] - from[0])) * (to[1] - from[1]);
+};
+
+/**
+ * Preview scroll offset for a (fractional) source line
+ * Lines before the first / after the last block are spread over the space before / after them
+ */
+export const previewOffsetForLine = (blocks: SourceBlock[], line: number, totalLines: number, scrollHeight: number): number => {
+  const points: [number, number][] = [[1, 0], ...blocks.map(block => [block.line, block.top] as [number, number]), [totalLines + 1, scrollHeight]];
+  for (let i = 0; i < points.length - 1; i++) {
+    if (line < points[i + 1][0]) {
+      return interpolate(line, points[i], points[i + 1]);
+    }
+  }
+  return scrollHeight;
+};
+
+/**
+ * Source line (fractional) shown at a preview scroll offset - the inverse of previewOffsetForLine
+ */
+export const lineForPreviewOffset = (blocks: SourceBlock[], offset: number, totalLines: number, scrollHeight: number): number => {
+  const points: [number, number][] = [[0, 1], ...blocks.map(block => [block.top, block.line] as [number, number]), [scrollHeight, totalLines + 1]];
+  for (let i = 0; i < points.length - 1; i++) {
+    if (offset < points[i + 1][0]) {
+      return interpolate(offset, points[i], points[i + 1]);
+    }
+  }
+  return totalLines;
+};
+
+// Distance from the top of the editor's scroller to the top of the document
+const documentOffset = (view: EditorView) =>
+  view.documentTop - view.scrollDOM.getBoundingClientRect().top + view.scrollDOM.scrollTop;
+
+/**
+ * Source line (fractional) at the top of the editor viewport
+ */
+export const topVisibleEditorLine = (view: EditorView): number => {
+  const height = view.scrollDOM.scrollTop - documentOffset(view);
+  const block = view.lineBlockAtHeight(Math.max(0, height));
+  const line = view.state.doc.lineAt(block.from).number;
+  return line + Math.min(1, Math.max(0, (height - block.top) / (block.height || 1)));
+};
+
+/**
+ * Scroll the editor so a (fractional) source line is at the top of the viewport
+ */
+export const scrollEditorToLine = (view: EditorView, line: number) => {
+  const lineNumber = Math.min(view.state.doc.lines, Math.max(1, Math.floor(line)));
+  const block = view.lineBlockAt(view.state.doc.line(lineNumber).from);
+  view.scrollDOM.scrollTop = documentOffset(view) + block.top + (line - lineNumber) * block.height;
+};
+
+// Whether an element is scrolled all the way down
+export const isScrolledToBottom = (element: HTMLElement) =>
+  element.scrollTop + element.clientHeight >= element.scrollHeight - 1;
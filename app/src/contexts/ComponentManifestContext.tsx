@@ -0,0 +1,67 @@
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { ComponentManifest } from '@/types';
+
+// Define the context shape
+interface ComponentManifestContextType {
+  manifests: Record<string, ComponentManifest>;
+  setManifest: (repoName: string, manifest: ComponentManifest) => void;
+  loadManifest: (repoName: string) => Promise<void>;
+}
+
+// Create the context with a default value
+const ComponentManifestContext = createContext<ComponentManifestContextType>({
+  manifests: {},
+  setManifest: () => {},
+  loadManifest: async () => {},
+});
+
+// Provider component - caches the components manifest of each repository for the session
+export const ComponentManifestProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [manifests, setManifests] = useState<Record<string, ComponentManifest>>({});
+
+  const setManifest = useCallback((repoName: string, manifest: ComponentManifest) => {
+    setManifests(prev => ({ ...prev, [repoName]: manifest }));
+  }, []);
+
+  const loadManifest = useCallback(async (repoName: string) => {
+    try {
+      const response = await fetch(`/api/repositories/components?repoName=${encodeURIComponent(repoName)}`);
+      const data = await response.json();
+
+      if (data.error) {
+        console.error('Error loading component manifest:', data.error);
+        return;
+      }
+
+      setManifest(repoName, data.componentManifest);
+    } catch (err) {
+      console.error('Error loading component manifest:', err);
+    }
+  }, [setManifest]);
+
+  return (
+    <ComponentManifestContext.Provider value={{ manifests, setManifest, loadManifest }}>
+      {children}
+    </ComponentManifestContext.Provider>
+  );
+};
+
+// Hook to use the manifest context
+export const useComponentManifestContext = () => useContext(ComponentManifestContext);
+
+/**
+ * Components manifest of a repository
+ * Uses the manifest loaded when the repository was selected, or fetches it when the page was opened directly
+ */
+export const useComponentManifest = (repoName: string): ComponentManifest | undefined => {
+  const { manifests, loadManifest } = useContext(ComponentManifestContext);
+  const manifest = manifests[repoName];
+
+  useEffect(() => {
+    if (repoName && !manifest) {
+      loadManifest(repoName);
+    }
+  }, [repoName, manifest, loadManifest]);
+
+  return manifest;
+};
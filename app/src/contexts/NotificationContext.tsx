@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, ReactNode } from 'react';
 import Notification, { NotificationType } from '@/components/Notification';
 
 // Define the shape of a notification
@@ -28,18 +28,19 @@ export const useNotification = () => useContext(NotificationContext);
 export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
 
-  const showNotification = (type: NotificationType, message: string, duration = 5000) => {
+  // Stable across renders so components can use them in effect dependencies
+  const showNotification = useCallback((type: NotificationType, message: string, duration = 5000) => {
     const id = Math.random().toString(36).substring(2, 9);
     const newNotification = { id, type, message, duration };
 
     setNotifications((prevNotifications) => [...prevNotifications, newNotification]);
-  };
+  }, []);
 
-  const hideNotification = (id: string) => {
+  const hideNotification = useCallback((id: string) => {
     setNotifications((prevNotifications) => 
       prevNotifications.filter((notification) => notification.id !== id)
     );
-  };
+  }, []);
 
   return (
     <NotificationContext.Provider value={{ showNotification, hideNotification }}>
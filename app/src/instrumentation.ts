@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Resume image generation jobs left unfinished by the last run (not while building)
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NEXT_PHASE !== 'phase-production-build') {
+    const { startImageJobQueue } = await import('@/utils/imageJobQueue');
+    await startImageJobQueue();
+  }
+}
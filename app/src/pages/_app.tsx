@@ -4,6 +4,7 @@ import type { AppProps } from 'next/app';
 import { Inter } from 'next/font/google';
 import { NotificationProvider } from '@/contexts/NotificationContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { ComponentManifestProvider } from '@/contexts/ComponentManifestContext';
 
 // Import the Inter font
 const inter = Inter({ subsets: ['latin'] });
@@ -12,9 +13,11 @@ export default function App({ Component, pageProps }: AppProps) {
   return (
     <ThemeProvider>
       <NotificationProvider>
-        <main className={`${inter.className} min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors`}>
-          <Component {...pageProps} />
-        </main>
+        <ComponentManifestProvider>
+          <main className={`${inter.className} min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors`}>
+            <Component {...pageProps} />
+          </main>
+        </ComponentManifestProvider>
       </NotificationProvider>
     </ThemeProvider>
   );
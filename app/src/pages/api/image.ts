@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs-extra';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -18,8 +19,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Image path is required' });
     }
 
-    // Use the same repository directory as in other handlers
-    const REPOS_DIR = path.join(process.cwd(), 'repositories');
     const repoPath = path.join(REPOS_DIR, repoName);
 
     // Check if the repository exists
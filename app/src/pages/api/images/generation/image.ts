@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getImageProvider } from '@/utils/imageProviders';
+
+/**
+ * Serve a generated image through the repository's provider, for previews and opening it in a new tab
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { repoName, url } = req.query;
+
+  if (!repoName || typeof repoName !== 'string') {
+    return res.status(400).json({ error: 'Repository name is required' });
+  }
+
+  if (!url || typeof url !== 'string') {
+    return res.status(400).json({ error: 'Image URL is required' });
+  }
+
+  try {
+    const provider = await getImageProvider(repoName);
+    const image = await provider.fetchImage(url);
+
+    if (!image.success || !image.data) {
+      return res.status(502).json({ error: image.error || 'Failed to fetch the generated image' });
+    }
+
+    res.setHeader('Content-Type', image.contentType || 'application/octet-stream');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    return res.status(200).send(image.data);
+  } catch (error) {
+    console.error('Error serving generated image:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to serve the generated image' });
+  }
+}
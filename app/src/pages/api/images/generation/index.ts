@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getImageProvider } from '@/utils/imageProviders';
+
+/**
+ * Image generation through the repository's configured provider
+ * POST submits a prompt, GET polls a job and DELETE cleans a job up
+ * Provider credentials come from the server's configuration and are never accepted from or sent to the browser
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const params = req.method === 'POST' ? req.body : req.query;
+  const { repoName, jobId, prompt } = params;
+
+  if (!repoName || typeof repoName !== 'string') {
+    return res.status(400).json({ error: 'Repository name is required' });
+  }
+
+  try {
+    const provider = await getImageProvider(repoName);
+
+    if (req.method === 'POST') {
+      if (!prompt || typeof prompt !== 'string') {
+        return res.status(400).json({ error: 'Prompt is required' });
+      }
+
+      const result = await provider.submit(prompt);
+      if (!result.success) {
+        return res.status(502).json({ error: result.error || 'Failed to start image generation' });
+      }
+      return res.status(200).json({ jobId: result.jobId, provider: provider.name });
+    }
+
+    if (!jobId || typeof jobId !== 'string') {
+      return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    if (req.method === 'GET') {
+      const result = await provider.poll(jobId);
+      if (!result.success) {
+        return res.status(502).json({ error: result.error || 'Failed to check on image generation' });
+      }
+      return res.status(200).json({ status: result.status });
+    }
+
+    const result = await provider.cleanup(jobId);
+    if (!result.success) {
+      return res.status(502).json({ error: result.error || 'Failed to clean up image generation' });
+    }
+    return res.status(200).json({ message: `Job ${jobId} removed` });
+  } catch (error) {
+    console.error('Error in image generation:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Image generation failed' });
+  }
+}
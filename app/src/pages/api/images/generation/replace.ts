@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { getImageProvider } from '@/utils/imageProviders';
+import { replaceImageWithGenerated } from '@/utils/imageGeneration';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+/**
+ * Replace an image of a post with a generated one
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { repoName, slug, oldImagePath, downloadUrl } = req.body;
+
+  if (!repoName || !slug || !oldImagePath || !downloadUrl) {
+    return res.status(400).json({
+      error: 'Missing required fields: repoName, slug, oldImagePath, downloadUrl',
+    });
+  }
+
+  try {
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+
+    const provider = await getImageProvider(repoName);
+    const result = await replaceImageWithGenerated(provider, downloadUrl, repoPath, slug, oldImagePath);
+
+    if (!result.success) {
+      return res.status(502).json({ error: result.error });
+    }
+
+    return res.status(200).json({
+      success: true,
+      newImagePath: result.newImagePath,
+      message: `Image ${path.basename(oldImagePath)} replaced with a generated image`,
+    });
+  } catch (error) {
+    console.error('Error replacing image with generated image:', error);
+    return res.status(500).json({ error: `Failed to replace image: ${(error as Error).message}` });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { getCandidateFile, getImageJob } from '@/utils/imageJobQueue';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Serve one of a job's cached candidate images, for the candidate picker
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, index = '0' } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Job id is required' });
+  }
+
+  const candidate = Number(index);
+  if (!Number.isInteger(candidate) || candidate < 0) {
+    return res.status(400).json({ error: 'Candidate index must be a whole number' });
+  }
+
+  try {
+    const job = await getImageJob(id);
+    const candidateFile = job && candidate < (job.candidateCount || 0) ? getCandidateFile(job, candidate) : null;
+
+    if (!candidateFile || !await fs.pathExists(candidateFile)) {
+      return res.status(404).json({ error: 'This candidate image is not cached' });
+    }
+
+    res.setHeader('Content-Type', CONTENT_TYPES[path.extname(candidateFile).toLowerCase()] || 'image/jpeg');
+    res.setHeader('Cache-Control', 'no-store');
+    return res.send(await fs.readFile(candidateFile));
+  } catch (error) {
+    console.error('Error serving candidate image:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to load the candidate image' });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ImageJobEvent } from '@/types';
+import { listImageJobs, subscribeToImageJobs } from '@/utils/imageJobQueue';
+
+// Comment lines sent while nothing happens, so proxies don't close an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Server-sent events for a post's image generation jobs
+ * Sends a "snapshot" of the post's jobs, then a "job" event for every change and "removed" when one is cleared
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { repoName, slug } = req.query;
+
+  if (!repoName || typeof repoName !== 'string' || !slug || typeof slug !== 'string') {
+    return res.status(400).json({ error: 'Repository name and slug are required' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the response from being compressed, which would hold back the events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  // Nothing is written once the editor has gone, even by a change that arrives while the snapshot is read
+  const isClosed = () => res.writableEnded || req.destroyed;
+
+  const send = (event: ImageJobEvent) => {
+    if (!isClosed()) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  };
+
+  // Subscribe before taking the snapshot so no change falls in between
+  const unsubscribe = subscribeToImageJobs(event => {
+    if (event.job.repoName === repoName && event.job.slug === slug) {
+      send(event);
+    }
+  });
+  const heartbeat = setInterval(() => {
+    if (!isClosed()) {
+      res.write(': heartbeat\n\n');
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Listen for the disconnect before the first await, so a client that leaves early still releases everything
+  const closed = new Promise<void>(resolve => req.on('close', resolve));
+
+  try {
+    const jobs = await listImageJobs(repoName, slug);
+    send({ type: 'snapshot', jobs });
+  } catch (error) {
+    console.error('Error listing image jobs:', error);
+  }
+
+  // Keep the handler running until the editor disconnects
+  await closed;
+  clearInterval(heartbeat);
+  unsubscribe();
+  if (!res.writableEnded) {
+    res.end();
+  }
+}
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { listImageJobs, removeImageJob } from '@/utils/imageJobQueue';
+
+/**
+ * Queued image generation jobs
+ * GET lists a repository's jobs (optionally one post's); DELETE cancels a queued job or clears a finished one
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const { repoName, slug } = req.query;
+
+      if (!repoName || typeof repoName !== 'string') {
+        return res.status(400).json({ error: 'Repository name is required' });
+      }
+
+      const jobs = await listImageJobs(repoName, typeof slug === 'string' ? slug : undefined);
+      return res.status(200).json({ jobs });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ error: 'Job id is required' });
+      }
+
+      const result = await removeImageJob(id);
+      if (!result.success) {
+        return res.status(result.error === 'Image job not found' ? 404 : 409).json({ error: result.error });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error handling image jobs:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to handle image jobs' });
+  }
+}
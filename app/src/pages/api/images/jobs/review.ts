@@ -0,0 +1,41 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ImageReviewAction } from '@/types';
+import { reviewImageJob } from '@/utils/imageJobQueue';
+
+const REVIEW_ACTIONS: ImageReviewAction[] = ['accept', 'reject', 'regenerate'];
+
+/**
+ * Accept one of a job's candidate images (`candidate`, 0 by default), reject them, or regenerate a batch job
+ * Accepting is the only way a batch image reaches the post's uploads folder, and switches a replaced image to another candidate
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, action, candidate = 0 } = req.body;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Job id is required' });
+  }
+
+  if (!REVIEW_ACTIONS.includes(action)) {
+    return res.status(400).json({ error: `Action must be one of: ${REVIEW_ACTIONS.join(', ')}` });
+  }
+
+  if (!Number.isInteger(candidate) || candidate < 0) {
+    return res.status(400).json({ error: 'Candidate must be a whole number' });
+  }
+
+  try {
+    const result = await reviewImageJob(id, action, candidate);
+
+    if (!result.success) {
+      return res.status(result.error === 'Image job not found' ? 404 : 409).json({ error: result.error });
+    }
+    return res.status(200).json({ success: true, job: result.job });
+  } catch (error) {
+    console.error('Error reviewing image job:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to review the image' });
+  }
+}
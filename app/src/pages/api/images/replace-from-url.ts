@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs-extra';
 import dotenv from 'dotenv';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 export default async function handler(
   req: NextApiRequest,
@@ -99,8 +100,7 @@ export default async function handler(
     // Step 2: Save the image directly to the repository
     
     // Determine repository path
-    const reposDir = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
-    const repoPath = path.join(reposDir, repoName);
+    const repoPath = path.join(REPOS_DIR, repoName);
 
     // Validate the repository exists
     if (!fs.existsSync(repoPath)) {
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import { IncomingForm, Fields, Files } from 'formidable';
 import fs from 'fs-extra';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 // Configure Next.js to handle file uploads
 export const config = {
@@ -47,8 +48,7 @@ export default async function handler(
     }
 
     // Determine repository path
-    const reposDir = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
-    const repoPath = path.join(reposDir, repoName);
+    const repoPath = path.join(REPOS_DIR, repoName);
 
     // Validate the file exists
     if (!fs.existsSync(repoPath)) {
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs-extra';
 import sharp from 'sharp';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 // Configure Next.js to handle file uploads
 export const config = {
@@ -28,16 +29,15 @@ export default async function handler(
     }
 
     // Determine repositories path
-    const reposDir = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
     
     // Validate the repository exists
-    const repoPath = path.join(reposDir, repoName);
+    const repoPath = path.join(REPOS_DIR, repoName);
     if (!fs.existsSync(repoPath)) {
       return res.status(404).json({ error: 'Repository not found' });
     }
     
     // Get the logo from the selected repository
-    const logoPath = path.join(reposDir, selectedLogoRepo, 'logo.png');
+    const logoPath = path.join(REPOS_DIR, selectedLogoRepo, 'logo.png');
     if (!fs.existsSync(logoPath)) {
       return res.status(404).json({ error: 'Logo not found for the selected repository' });
     }
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs-extra';
 import sharp from 'sharp';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 // Configure Next.js to handle request body
 export const config = {
@@ -28,10 +29,9 @@ export default async function handler(
     }
 
     // Determine repositories path
-    const reposDir = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
     
     // Validate the repository exists
-    const repoPath = path.join(reposDir, repoName);
+    const repoPath = path.join(REPOS_DIR, repoName);
     if (!fs.existsSync(repoPath)) {
       return res.status(404).json({ error: 'Repository not found' });
     }
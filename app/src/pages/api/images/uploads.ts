@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { listUploadedImages } from '@/utils/mdxOperations';
+import { isSafeSlug } from '@/utils/slugUtils';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { repoName, slug } = req.query;
+
+  if (!repoName || typeof repoName !== 'string') {
+    return res.status(400).json({ error: 'Repository name is required' });
+  }
+
+  if (!slug || typeof slug !== 'string' || !isSafeSlug(slug)) {
+    return res.status(400).json({ error: 'A valid post slug is required' });
+  }
+
+  try {
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    if (!await fs.pathExists(path.join(repoPath, 'posts', `${slug}.mdx`))) {
+      return res.status(404).json({ error: `Post "${slug}" not found` });
+    }
+
+    const images = await listUploadedImages(repoPath, slug);
+
+    return res.status(200).json({ images });
+  } catch (error) {
+    console.error('Error listing uploaded images:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to list uploaded images' });
+  }
+}
@@ -2,7 +2,45 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
-import { getBlogPost, saveBlogPost } from '@/utils/mdxOperations';
+import { createBlogPost, getBlogPost, getPostVersion, readFrontmatterSchema, renameBlogPost, saveBlogPost } from '@/utils/mdxOperations';
+import { isValidSlug } from '@/utils/slugUtils';
+import { hasActiveImageJobs, renameImageJobs } from '@/utils/imageJobQueue';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+/**
+ * Check that the post on disk is still the version the client edited.
+ * Responds with 409 and the current post when it changed in the meantime (e.g. after a git pull or a save from another tab).
+ * Returns true when the request may go ahead.
+ */
+const checkPostVersion = async (
+  res: NextApiResponse,
+  repoPath: string,
+  slug: string,
+  version: unknown
+): Promise<boolean> => {
+  if (!version || typeof version !== 'string') {
+    res.status(400).json({ error: 'Missing post version' });
+    return false;
+  }
+  
+  const currentVersion = await getPostVersion(repoPath, slug);
+  
+  if (!currentVersion) {
+    res.status(404).json({ error: 'Post not found' });
+    return false;
+  }
+  
+  if (currentVersion !== version) {
+    const currentPost = await getBlogPost(repoPath, slug);
+    res.status(409).json({
+      error: 'The post was changed on disk since it was opened',
+      conflict: { post: currentPost, version: currentVersion },
+    });
+    return false;
+  }
+  
+  return true;
+};
 
 export default async function handler(
   req: NextApiRequest,
@@ -15,8 +53,7 @@ export default async function handler(
   }
 
   // Determine the repository path
-  const reposDir = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
-  const repoPath = path.join(reposDir, repoName);
+  const repoPath = path.join(REPOS_DIR, repoName);
 
   try {
     // Handle GET request (fetch post)
@@ -27,24 +64,95 @@ export default async function handler(
         return res.status(404).json({ error: 'Post not found' });
       }
       
-      return res.status(200).json({ post });
+      // When the file was last written, so the editor can tell whether a local draft is newer
+      const { mtimeMs } = await fs.stat(path.join(repoPath, 'posts', `${slug}.mdx`));
+      const version = await getPostVersion(repoPath, slug);
+      const frontmatterSchema = await readFrontmatterSchema(repoPath);
+      
+      return res.status(200).json({ post, version, lastModified: mtimeMs, frontmatterSchema });
+    }
+    
+    // Handle POST request (create a new post scaffold)
+    if (req.method === 'POST') {
+      const { title, author, category, excerpt } = req.body || {};
+      
+      if (!isValidSlug(slug)) {
+        return res.status(400).json({ error: 'Slug may only contain lowercase letters, numbers and hyphens' });
+      }
+      
+      const result = await createBlogPost(repoPath, slug, { title, author, category, excerpt });
+      
+      if (!result.success) {
+        return res.status(result.exists ? 409 : 500).json({ error: result.error });
+      }
+      
+      return res.status(201).json({ post: result.post, version: await getPostVersion(repoPath, slug) });
     }
     
     // Handle PUT request (update post)
     if (req.method === 'PUT') {
-      const { post } = req.body;
+      const { post, version } = req.body;
       
       if (!post) {
         return res.status(400).json({ error: 'Missing post data' });
       }
       
+      // Saving under a different slug would orphan the old file and images - renames go through PATCH
+      if (post.frontmatter?.slug !== slug) {
+        return res.status(400).json({ error: 'The slug has changed; use PATCH to rename the post' });
+      }
+      
+      if (!await checkPostVersion(res, repoPath, slug, version)) {
+        return;
+      }
+      
       const result = await saveBlogPost(repoPath, post);
       
+      if (result.fieldErrors) {
+        return res.status(422).json({ error: result.error, fieldErrors: result.fieldErrors });
+      }
+      
       if (!result.success) {
         return res.status(500).json({ error: result.error });
       }
       
-      return res.status(200).json({ success: true });
+      return res.status(200).json({ success: true, version: await getPostVersion(repoPath, slug) });
+    }
+    
+    // Handle PATCH request (rename the post to a new slug)
+    if (req.method === 'PATCH') {
+      const { newSlug, post, version } = req.body || {};
+      
+      if (!newSlug || typeof newSlug !== 'string') {
+        return res.status(400).json({ error: 'Missing new slug' });
+      }
+      
+      if (!isValidSlug(newSlug)) {
+        return res.status(400).json({ error: 'Slug may only contain lowercase letters, numbers and hyphens' });
+      }
+      
+      if (!await checkPostVersion(res, repoPath, slug, version)) {
+        return;
+      }
+      
+      // Queued and running image jobs write to uploads/<slug>/, which the rename moves away
+      if (await hasActiveImageJobs(repoName, slug)) {
+        return res.status(409).json({ error: 'Images of this post are being generated; wait for them to finish or cancel them before renaming' });
+      }
+      
+      const result = await renameBlogPost(repoPath, slug, newSlug, post);
+      
+      if (result.fieldErrors) {
+        return res.status(422).json({ error: result.error, fieldErrors: result.fieldErrors });
+      }
+      
+      if (!result.success) {
+        return res.status(result.exists ? 409 : 500).json({ error: result.error });
+      }
+      
+      await renameImageJobs(repoName, slug, newSlug);
+      
+      return res.status(200).json({ post: result.post, version: await getPostVersion(repoPath, newSlug) });
     }
     
     // Handle DELETE request (delete post and associated images)
@@ -3,6 +3,7 @@ import path from 'path';
 import fs from 'fs-extra';
 import { getAllPosts } from '@/utils/mdxOperations';
 import { BlogPost } from '@/types';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 // Define interface for the lightweight post data needed for listing
 interface PostCardData {
@@ -62,8 +63,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Repository name is required' });
     }
 
-    // Use the same repository directory as in other handlers
-    const REPOS_DIR = path.join(process.cwd(), 'repositories');
     const repoPath = path.join(REPOS_DIR, repoName);
 
     // Check if the repository exists
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { compileMdx } from '@/utils/mdxCompiler';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { content } = req.body;
+
+  if (typeof content !== 'string') {
+    return res.status(400).json({ error: 'Content is required' });
+  }
+
+  try {
+    const result = await compileMdx(content);
+
+    if (!result.success) {
+      // 422: the request was fine, the MDX itself doesn't compile
+      return res.status(422).json({ compileError: result.error });
+    }
+
+    return res.status(200).json({
+      source: {
+        compiledSource: result.compiledSource,
+        scope: {},
+        frontmatter: {},
+      },
+      components: result.components,
+    });
+  } catch (error) {
+    console.error('Error compiling MDX preview:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to compile preview' });
+  }
+}
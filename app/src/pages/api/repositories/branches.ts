@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { createBranch, getDefaultBranch, isValidBranchName, listBranches } from '@/utils/gitOperations';
+import { isPullRequestHookEnabled } from '@/utils/pullRequests';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const repoName = req.method === 'GET' ? req.query.repoName : req.body.repoName;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    if (req.method === 'GET') {
+      const [branches, defaultBranch] = await Promise.all([listBranches(repoPath), getDefaultBranch(repoPath)]);
+      return res.status(200).json({
+        branches,
+        defaultBranch,
+        pullRequestsEnabled: isPullRequestHookEnabled(),
+      });
+    }
+
+    // Create a branch (optionally from another branch or commit) and switch to it
+    const { name, from } = req.body;
+
+    if (!name || typeof name !== 'string' || !await isValidBranchName(repoPath, name)) {
+      return res.status(400).json({ error: 'A valid branch name is required' });
+    }
+
+    if (from !== undefined && (typeof from !== 'string' || !from || from.startsWith('-'))) {
+      return res.status(400).json({ error: 'from must be a branch name or commit' });
+    }
+
+    const branches = await listBranches(repoPath);
+    if (branches.some(branch => branch.name === name)) {
+      return res.status(409).json({ error: `Branch ${name} already exists` });
+    }
+
+    const result = await createBranch(repoPath, name, from);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to create branch' });
+    }
+
+    return res.status(201).json({ message: `Created and switched to branch ${name}` });
+  } catch (error) {
+    console.error('Error managing branches:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to manage branches' });
+  }
+}
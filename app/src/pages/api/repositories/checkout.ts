@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { listBranches, switchBranch } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, branch } = req.body;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!branch || typeof branch !== 'string') {
+      return res.status(400).json({ error: 'Branch name is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    const branches = await listBranches(repoPath);
+    if (!branches.some(existing => existing.name === branch)) {
+      return res.status(404).json({ error: `Branch ${branch} not found` });
+    }
+
+    const result = await switchBranch(repoPath, branch);
+
+    if (!result.success) {
+      // Usually uncommitted changes that the other branch would overwrite
+      return res.status(409).json({ error: result.error || 'Failed to switch branch' });
+    }
+
+    return res.status(200).json({ message: `Switched to branch ${branch}` });
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to switch branch' });
+  }
+}
@@ -1,18 +1,50 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
 import { cloneRepository } from '@/utils/gitOperations';
+import { saveCredential, validateCredential } from '@/utils/credentials';
+import { REPOS_DIR } from '@/utils/dataDir';
+import { CloneMode } from '@/types';
+
+const CLONE_MODES: CloneMode[] = ['full', 'shallow', 'blobless'];
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'POST') {
     try {
-      const { url, name } = req.body;
+      const { url, name, mode = 'full', depth, credential } = req.body;
       
       if (!url || !name) {
         return res.status(400).json({ error: 'Repository URL and name are required' });
       }
       
-      const result = await cloneRepository(url, name);
+      if (!CLONE_MODES.includes(mode)) {
+        return res.status(400).json({ error: `Clone mode must be one of: ${CLONE_MODES.join(', ')}` });
+      }
+      
+      if (mode === 'shallow' && depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        return res.status(400).json({ error: 'depth must be a positive whole number' });
+      }
+      
+      if (credential) {
+        const problem = validateCredential(credential);
+        if (problem) {
+          return res.status(400).json({ error: problem });
+        }
+      }
+      
+      // Checked before anything is stored, so a clone under an existing name can't replace that repository's credential
+      if (await fs.pathExists(path.join(REPOS_DIR, name))) {
+        return res.status(409).json({ error: `A repository named "${name}" already exists` });
+      }
+      
+      const result = await cloneRepository(url, name, { mode, depth }, credential || undefined);
       
       if (result) {
+        // The credential given with the clone is only kept once it has worked
+        if (credential) {
+          await saveCredential(name, credential);
+        }
+        
         return res.status(200).json({ 
           message: 'Repository cloned successfully',
           repository: result
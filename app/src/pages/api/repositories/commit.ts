@@ -1,26 +1,53 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
-import { commitAndPushChanges } from '@/utils/gitOperations';
+import fs from 'fs-extra';
+import { commitChanges, getPostChangedPaths } from '@/utils/gitOperations';
+import { isSafeSlug } from '@/utils/slugUtils';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'POST') {
     try {
-      const { repoName, message } = req.body;
+      const { repoName, message, files, slug } = req.body;
       
       if (!repoName || !message) {
         return res.status(400).json({ error: 'Repository name and commit message are required' });
       }
       
-      // Use the same repository directory as in gitOperations.ts
-      const REPOS_DIR = path.join(process.cwd(), 'repositories');
+      // Optionally commit only a list of files, or only the changes of one post; without either every change is committed
+      if (files !== undefined && slug !== undefined) {
+        return res.status(400).json({ error: 'Pass either files or slug, not both' });
+      }
+      
+      if (files !== undefined && (!Array.isArray(files) || !files.every(file => typeof file === 'string'))) {
+        return res.status(400).json({ error: 'Files must be a list of paths' });
+      }
+      
+      if (slug !== undefined && (typeof slug !== 'string' || !isSafeSlug(slug))) {
+        return res.status(400).json({ error: 'A valid post slug is required' });
+      }
+      
       const repoPath = path.join(REPOS_DIR, repoName);
       
-      const result = await commitAndPushChanges(repoPath, message);
+      if (slug && !await fs.pathExists(path.join(repoPath, 'posts', `${slug}.mdx`))) {
+        return res.status(404).json({ error: `Post "${slug}" not found` });
+      }
+      
+      let paths: string[] | undefined = files;
+      if (slug) {
+        paths = await getPostChangedPaths(repoPath, slug);
+        if (paths.length === 0) {
+          return res.status(400).json({ error: `There are no uncommitted changes to post "${slug}"` });
+        }
+      }
+      
+      // Pushing is a separate step (POST /api/repositories/push)
+      const result = await commitChanges(repoPath, message, paths);
       
-      if (result) {
-        return res.status(200).json({ message: 'Changes committed and pushed successfully' });
+      if (result.success) {
+        return res.status(200).json({ message: 'Changes committed successfully' });
       } else {
-        return res.status(500).json({ error: 'Failed to commit changes' });
+        return res.status(500).json({ error: result.error || 'Failed to commit changes' });
       }
     } catch (error) {
       console.error('Error committing changes:', error);
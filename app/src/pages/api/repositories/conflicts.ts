@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { BlogPost, ConflictVersions } from '@/types';
+import { getConflictedFiles, getConflictVersions, isMerging } from '@/utils/gitOperations';
+import { parseMdxContent } from '@/utils/mdxOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, path: filePath } = req.query;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    // Without a path, list the files that still have conflicts
+    if (filePath === undefined) {
+      const merging = await isMerging(repoPath);
+      const files = merging ? await getConflictedFiles(repoPath) : [];
+      return res.status(200).json({ merging, files });
+    }
+
+    if (typeof filePath !== 'string' || !filePath.endsWith('.mdx')) {
+      return res.status(400).json({ error: 'The path of a conflicted MDX file is required' });
+    }
+
+    // Parsed so the versions can be merged field by field in the editor's conflict view
+    const versions = await getConflictVersions(repoPath, filePath);
+    const parse = (content: string | null) => (content === null ? null : parseMdxContent(content));
+    const posts: ConflictVersions<BlogPost> = {
+      path: versions.path,
+      base: parse(versions.base),
+      ours: parse(versions.ours),
+      theirs: parse(versions.theirs),
+    };
+
+    return res.status(200).json({ versions: posts });
+  } catch (error) {
+    console.error('Error getting merge conflicts:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to get merge conflicts' });
+  }
+}
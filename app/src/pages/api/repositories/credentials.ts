@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { deleteCredential, listCredentials, saveCredential, validateCredential } from '@/utils/credentials';
+
+/**
+ * Git credentials per repository
+ * GET lists them without their secrets, POST stores one for a repository (cloned or about to be)
+ * and DELETE removes a repository's credential
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const credentials = await listCredentials();
+      return res.status(200).json({ credentials });
+    }
+
+    if (req.method === 'POST') {
+      const { repoName, credential } = req.body;
+
+      if (!repoName || typeof repoName !== 'string') {
+        return res.status(400).json({ error: 'Repository name is required' });
+      }
+
+      const problem = credential ? validateCredential(credential) : 'Credential is required';
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const summary = await saveCredential(repoName, credential);
+      return res.status(200).json({ message: `Credential for ${repoName} saved`, credential: summary });
+    }
+
+    if (req.method === 'DELETE') {
+      const { repoName } = req.query;
+
+      if (!repoName || typeof repoName !== 'string') {
+        return res.status(400).json({ error: 'Repository name is required' });
+      }
+
+      if (!await deleteCredential(repoName)) {
+        return res.status(404).json({ error: `No credential stored for ${repoName}` });
+      }
+
+      return res.status(200).json({ message: `Credential for ${repoName} removed` });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error managing credentials:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to manage credentials' });
+  }
+}
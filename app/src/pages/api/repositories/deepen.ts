@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { deepenHistory } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+// Commits fetched per request when no count is given
+const DEFAULT_DEEPEN_BY = 50;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, commits = DEFAULT_DEEPEN_BY } = req.body;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!Number.isInteger(commits) || commits < 1) {
+      return res.status(400).json({ error: 'commits must be a positive whole number' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    const result = await deepenHistory(repoPath, commits);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch older history' });
+    }
+
+    return res.status(200).json({ message: `Fetched up to ${commits} older commits` });
+  } catch (error) {
+    console.error('Error deepening history:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to fetch older history' });
+  }
+}
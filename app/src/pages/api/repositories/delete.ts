@@ -2,6 +2,8 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs';
 import { rm } from 'fs/promises';
+import { deleteCredential } from '@/utils/credentials';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 export default async function handler(
   req: NextApiRequest,
@@ -18,8 +20,7 @@ export default async function handler(
       return res.status(400).json({ error: 'Repository name is required' });
     }
 
-    const reposPath = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
-    const repoPath = path.join(reposPath, repoName);
+    const repoPath = path.join(REPOS_DIR, repoName);
 
     // Check if the repository exists
     if (!fs.existsSync(repoPath)) {
@@ -29,6 +30,11 @@ export default async function handler(
     // Delete the repository directory recursively
     await rm(repoPath, { recursive: true, force: true });
 
+    // Its stored credential has nothing left to authenticate
+    await deleteCredential(repoName).catch(error => {
+      console.warn(`Failed to remove the credential of ${repoName}:`, error);
+    });
+
     // Return success
     return res.status(200).json({ success: true, message: `Repository '${repoName}' deleted successfully` });
   } catch (error) {
@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { getFileDiff } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, path: filePath, from } = req.query;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!filePath || typeof filePath !== 'string') {
+      return res.status(400).json({ error: 'File path is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    // Previous path of a renamed file, to diff against its committed contents
+    const diff = await getFileDiff(repoPath, filePath, typeof from === 'string' ? from : undefined);
+
+    return res.status(200).json({ diff });
+  } catch (error) {
+    console.error('Error getting file diff:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to get file diff' });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { getFileVersion } from '@/utils/gitOperations';
+import { getFileExtension, IMAGE_CONTENT_TYPES } from '@/utils/fileTypes';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+/**
+ * Serve a file from a repository's working tree, or as of the last commit with ref=HEAD
+ * Used to show images before and after uncommitted changes
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, path: filePath, ref } = req.query;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!filePath || typeof filePath !== 'string') {
+      return res.status(400).json({ error: 'File path is required' });
+    }
+
+    if (ref !== undefined && ref !== 'HEAD') {
+      return res.status(400).json({ error: 'Only ref=HEAD is supported' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    const contents = await getFileVersion(repoPath, filePath, ref);
+
+    if (!contents) {
+      return res.status(404).json({ error: `File not found: ${filePath}` });
+    }
+
+    res.setHeader('Content-Type', IMAGE_CONTENT_TYPES[getFileExtension(filePath)] || 'application/octet-stream');
+    // The working tree version changes as the post is edited
+    res.setHeader('Cache-Control', 'no-store, must-revalidate');
+
+    return res.send(contents);
+  } catch (error) {
+    console.error('Error serving repository file:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to serve file' });
+  }
+}
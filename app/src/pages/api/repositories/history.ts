@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { FileDiff } from '@/types';
+import { getFileVersion, getPostHistory } from '@/utils/gitOperations';
+import { parseMdxContent } from '@/utils/mdxOperations';
+import { isSafeSlug } from '@/utils/slugUtils';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+const COMMIT_HASH = /^[0-9a-f]{7,40}$/i;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, slug, commit } = req.query;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!slug || typeof slug !== 'string' || !isSafeSlug(slug)) {
+      return res.status(400).json({ error: 'A valid post slug is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    if (!await fs.pathExists(path.join(repoPath, 'posts', `${slug}.mdx`))) {
+      return res.status(404).json({ error: `Post "${slug}" not found` });
+    }
+
+    // Without a commit, list the post's commits
+    if (commit === undefined) {
+      const history = await getPostHistory(repoPath, slug);
+      return res.status(200).json(history);
+    }
+
+    if (typeof commit !== 'string' || !COMMIT_HASH.test(commit)) {
+      return res.status(400).json({ error: 'A valid commit hash is required' });
+    }
+
+    // The post as of the commit, and how the saved file differs from it
+    const filePath = `posts/${slug}.mdx`;
+    const [oldContent, newContent] = await Promise.all([
+      getFileVersion(repoPath, filePath, commit),
+      getFileVersion(repoPath, filePath),
+    ]);
+
+    if (!oldContent) {
+      return res.status(404).json({ error: `The post did not exist in commit ${commit.slice(0, 7)}` });
+    }
+
+    const diff: FileDiff = {
+      path: filePath,
+      oldContent: oldContent.toString('utf8'),
+      newContent: newContent?.toString('utf8') ?? '',
+    };
+
+    return res.status(200).json({ post: parseMdxContent(diff.oldContent), diff });
+  } catch (error) {
+    console.error('Error getting post history:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to get post history' });
+  }
+}
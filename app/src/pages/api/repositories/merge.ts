@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { abortMerge, finishMerge, isMerging } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, action } = req.body;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (action !== 'finish' && action !== 'abort') {
+      return res.status(400).json({ error: 'Action must be "finish" or "abort"' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    if (!await isMerging(repoPath)) {
+      return res.status(409).json({ error: 'There is no unfinished merge in this repository' });
+    }
+
+    const result = action === 'finish' ? await finishMerge(repoPath) : await abortMerge(repoPath);
+
+    if (!result.success) {
+      return res.status(action === 'finish' ? 409 : 500).json({ error: result.error });
+    }
+
+    return res.status(200).json({ message: action === 'finish' ? 'Merge committed' : 'Merge aborted' });
+  } catch (error) {
+    console.error('Error finishing merge:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to update merge' });
+  }
+}
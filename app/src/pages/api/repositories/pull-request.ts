@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { getDefaultBranch, getRemoteUrl, listBranches, pushChanges } from '@/utils/gitOperations';
+import { isPullRequestHookEnabled, openPullRequest } from '@/utils/pullRequests';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isPullRequestHookEnabled()) {
+    return res.status(501).json({ error: 'Pull requests are not configured (set PULL_REQUEST_API_URL)' });
+  }
+
+  try {
+    const { repoName, title, body, base } = req.body;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!title || typeof title !== 'string') {
+      return res.status(400).json({ error: 'Pull request title is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    const head = (await listBranches(repoPath)).find(branch => branch.current)?.name;
+    const baseBranch = typeof base === 'string' && base ? base : await getDefaultBranch(repoPath);
+
+    if (!head) {
+      return res.status(400).json({ error: 'The repository is not on a branch' });
+    }
+
+    if (!baseBranch) {
+      return res.status(400).json({ error: 'Could not find the branch to merge into; pass base' });
+    }
+
+    if (head === baseBranch) {
+      return res.status(400).json({ error: `Switch to a branch other than ${baseBranch} to open a pull request` });
+    }
+
+    // The forge can only see commits that were pushed
+    const pushResult = await pushChanges(repoPath, head);
+    if (!pushResult.success) {
+      return res.status(409).json({ error: `Failed to push ${head}: ${pushResult.error}`, reason: pushResult.reason });
+    }
+
+    const result = await openPullRequest(await getRemoteUrl(repoPath), {
+      head,
+      base: baseBranch,
+      title,
+      body: typeof body === 'string' ? body : undefined,
+    });
+
+    if (!result.success) {
+      return res.status(502).json({ error: result.error });
+    }
+
+    return res.status(201).json({ pullRequest: result.pullRequest });
+  } catch (error) {
+    console.error('Error opening pull request:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to open pull request' });
+  }
+}
@@ -1,9 +1,26 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { PullResult } from '@/types';
+import { pullRepository } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+// Summary of a pull outcome for the notification shown after pulling
+const describePull = (result: PullResult): string => {
+  switch (result.outcome) {
+    case 'up-to-date':
+      return 'Already up to date';
+    case 'fast-forward':
+      return 'Pulled the latest changes';
+    case 'merged':
+      return 'Merged the remote changes with your local commits';
+    case 'conflicted': {
+      const posts = result.conflictedPosts.length > 0 ? ` (posts: ${result.conflictedPosts.join(', ')})` : '';
+      return `The pull has conflicts in ${result.conflictedFiles.length} file(s)${posts}. Resolve them to finish the merge.`;
+    }
+    case 'blocked':
+      return `The pull would overwrite uncommitted changes to ${result.blockingFiles.join(', ')}. Commit or discard them, then pull again.`;
+  }
+};
 
 export default async function handler(
   req: NextApiRequest,
@@ -22,21 +39,14 @@ export default async function handler(
 
   try {
     // Determine the repository path
-    const reposDir = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
-    const repoPath = path.join(reposDir, repoName);
+    const repoPath = path.join(REPOS_DIR, repoName);
 
-    // Execute git pull
-    const { stdout, stderr } = await execAsync('git pull', {
-      cwd: repoPath,
-    });
-
-    if (stderr && !stderr.includes('Already up to date')) {
-      console.warn('Warning during git pull:', stderr);
-    }
+    // Conflicts and blocking local changes are outcomes too; the UI decides how to present them
+    const result = await pullRepository(repoPath);
 
     return res.status(200).json({
-      success: true,
-      message: stdout.trim() || 'Repository updated successfully',
+      message: describePull(result),
+      result,
     });
   } catch (error) {
     console.error('Error pulling repository:', error);
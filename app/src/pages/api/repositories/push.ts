@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { PushFailureReason } from '@/types';
+import { pushChanges } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+// Response status for each reason git can refuse a push
+const FAILURE_STATUS: Record<PushFailureReason, number> = {
+  'non-fast-forward': 409,
+  'no-upstream': 409,
+  auth: 401,
+  network: 502,
+  unknown: 500,
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, branch } = req.body;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (branch !== undefined && (typeof branch !== 'string' || !branch)) {
+      return res.status(400).json({ error: 'Branch must be a branch name' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    // Pushes the current branch unless another one is named
+    const result = await pushChanges(repoPath, branch);
+
+    if (!result.success) {
+      const reason = result.reason || 'unknown';
+      return res.status(FAILURE_STATUS[reason]).json({ error: result.error, reason });
+    }
+
+    return res.status(200).json({ message: 'Changes pushed successfully' });
+  } catch (error) {
+    console.error('Error pushing changes:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to push changes' });
+  }
+}
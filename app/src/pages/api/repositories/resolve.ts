@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { BlogPost } from '@/types';
+import { getConflictVersions, resolveConflict } from '@/utils/gitOperations';
+import { stringifyBlogPost } from '@/utils/mdxOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, path: filePath, take, post } = req.body as {
+      repoName?: string;
+      path?: string;
+      take?: 'ours' | 'theirs';
+      post?: BlogPost;
+    };
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    if (!filePath || typeof filePath !== 'string') {
+      return res.status(400).json({ error: 'File path is required' });
+    }
+
+    // Either take one side as is, or write a merged post
+    if ((take === undefined) === (post === undefined)) {
+      return res.status(400).json({ error: 'Pass either take ("ours" or "theirs") or the merged post' });
+    }
+
+    if (take !== undefined && take !== 'ours' && take !== 'theirs') {
+      return res.status(400).json({ error: 'take must be "ours" or "theirs"' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    let result;
+    if (post) {
+      if (!post.frontmatter || typeof post.content !== 'string') {
+        return res.status(400).json({ error: 'The merged post needs frontmatter and content' });
+      }
+      // Keep the local file's frontmatter formatting, editing only the merged values
+      const versions = await getConflictVersions(repoPath, filePath);
+      result = await resolveConflict(repoPath, filePath, {
+        content: stringifyBlogPost(post, versions.ours ?? versions.theirs),
+      });
+    } else {
+      result = await resolveConflict(repoPath, filePath, take as 'ours' | 'theirs');
+    }
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to resolve conflict' });
+    }
+
+    return res.status(200).json({ message: `Resolved ${filePath}` });
+  } catch (error) {
+    console.error('Error resolving conflict:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to resolve conflict' });
+  }
+}
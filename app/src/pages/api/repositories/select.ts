@@ -2,6 +2,8 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import path from 'path';
 import fs from 'fs-extra';
 import { getRepositoryStatus } from '@/utils/gitOperations';
+import { readComponentManifest } from '@/utils/componentManifest';
+import { REPOS_DIR } from '@/utils/dataDir';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'POST') {
@@ -12,8 +14,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(400).json({ error: 'Repository name is required' });
       }
       
-      // Use the same repository directory as in gitOperations.ts
-      const REPOS_DIR = path.join(process.cwd(), 'repositories');
       const repoPath = path.join(REPOS_DIR, repoName);
       
       // Check if the repository exists
@@ -29,9 +29,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       // Get repository status
       const status = await getRepositoryStatus(repoPath);
       
+      // Load the repository's MDX preview components along with the selection
+      const componentManifest = await readComponentManifest(repoPath);
+      
       return res.status(200).json({ 
         message: 'Repository selected successfully',
-        status: status.status
+        status: status.status,
+        componentManifest
       });
     } catch (error) {
       console.error('Error selecting repository:', error);
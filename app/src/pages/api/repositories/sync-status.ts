@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { getSyncStatus } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repoName, fetch } = req.query;
+
+    if (!repoName || typeof repoName !== 'string') {
+      return res.status(400).json({ error: 'Repository name is required' });
+    }
+
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      return res.status(404).json({ error: `Repository ${repoName} not found` });
+    }
+
+    // fetch=true updates the remote branches first, so "behind" includes commits pushed from elsewhere
+    const sync = await getSyncStatus(repoPath, fetch === 'true');
+
+    return res.status(200).json({ sync });
+  } catch (error) {
+    console.error('Error getting sync status:', error);
+    return res.status(500).json({ error: (error as Error).message || 'Failed to get sync status' });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import fs from 'fs-extra';
+import { unshallowRepository } from '@/utils/gitOperations';
+import { REPOS_DIR } from '@/utils/dataDir';
+
+/**
+ * Fetch the full history of a shallow clone
+ * Streams newline-delimited JSON: "progress" events while git works, then one "done" or "error" event
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { repoName } = req.body;
+
+  if (!repoName || typeof repoName !== 'string') {
+    return res.status(400).json({ error: 'Repository name is required' });
+  }
+
+  const repoPath = path.join(REPOS_DIR, repoName);
+
+  if (!await fs.pathExists(repoPath)) {
+    return res.status(404).json({ error: `Repository ${repoName} not found` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    // no-transform keeps the response from being compressed, which would hold back the progress events
+    'Cache-Control': 'no-cache, no-transform',
+  });
+
+  const send = (event: Record<string, unknown>) => {
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    const result = await unshallowRepository(repoPath, progress => send({ type: 'progress', ...progress }));
+
+    if (result.success) {
+      send({ type: 'done', message: 'Fetched the full history' });
+    } else {
+      send({ type: 'error', error: result.error || 'Failed to fetch full history' });
+    }
+  } catch (error) {
+    console.error('Error fetching full history:', error);
+    send({ type: 'error', error: (error as Error).message || 'Failed to fetch full history' });
+  }
+
+  res.end();
+}
@@ -1,15 +1,42 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { BlogPost, BlogImage } from '@/types';
+import { BlogPost, BlogImage, ContentViewMode, FrontmatterFieldError, FrontmatterSchema, PostCommit } from '@/types';
 import Header from '@/components/Header';
 import MetadataEditor from '@/components/editor/MetadataEditor';
 import ContentEditor from '@/components/editor/ContentEditor';
 import ImageManager from '@/components/editor/ImageManager';
 import EditorToolbar from '@/components/editor/EditorToolbar';
 import MdxPreview from '@/components/editor/MdxPreview';
+import SplitPaneEditor from '@/components/editor/SplitPaneEditor';
+import PostConflictModal from '@/components/editor/PostConflictModal';
+import CommitChangesModal from '@/components/CommitChangesModal';
 import HeroImagePrompt from '@/components/editor/HeroImagePrompt';
 import InBlogImagePrompt from '@/components/editor/InBlogImagePrompt';
+import PostHistory from '@/components/editor/PostHistory';
 import Button from '@/components/ui/Button';
+import { clearDraft, loadDraft, PostDraft, saveDraft } from '@/utils/draftStorage';
+import { useNotification } from '@/contexts/NotificationContext';
+
+// How often unsaved changes are written to the local draft while editing
+const AUTOSAVE_INTERVAL_MS = 3000;
+
+interface AutosaveState {
+  repoName: string;
+  slug: string;
+  post: BlogPost | null;
+  base: BlogPost | null; // The post on disk the changes were made to
+  version: string | null;
+  dirty: boolean;
+}
+
+// Write the draft of a post with unsaved changes, or drop the draft once there are none
+const writeAutosave = ({ repoName, slug, post, base, version, dirty }: AutosaveState) => {
+  if (post && dirty) {
+    saveDraft(repoName, slug, post, base, version);
+  } else {
+    clearDraft(repoName, slug);
+  }
+};
 
 export default function PostEditor() {
   const router = useRouter();
@@ -17,14 +44,30 @@ export default function PostEditor() {
   
   const [post, setPost] = useState<BlogPost | null>(null);
   const [originalPost, setOriginalPost] = useState<BlogPost | null>(null); // For comparison to see if changes were made
-  const [activeTab, setActiveTab] = useState<'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt'>('content');
-  const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [version, setVersion] = useState<string | null>(null); // Version of the file on disk that originalPost was read from
+  const [conflict, setConflict] = useState<{ post: BlogPost; version: string } | null>(null); // Set when a save hit newer changes on disk
+  const [activeTab, setActiveTab] = useState<'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history'>('content');
+  const [viewMode, setViewMode] = useState<ContentViewMode>('edit');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [showCommitModal, setShowCommitModal] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [syncRefreshKey, setSyncRefreshKey] = useState(0);
+  const [branchChanges, setBranchChanges] = useState(0); // Reloads the post after switching branches
+  const { showNotification } = useNotification();
   const [error, setError] = useState<string | null>(null);
+  const [frontmatterSchema, setFrontmatterSchema] = useState<FrontmatterSchema | undefined>(undefined);
+  const [fieldErrors, setFieldErrors] = useState<FrontmatterFieldError[]>([]); // Metadata errors reported by the last save
+  // Set right before navigating to the renamed post so the unsaved-changes guard doesn't fire
+  const skipUnsavedCheckRef = useRef(false);
+  // Local draft newer than the file on disk, waiting for the user to restore or discard it
+  const [pendingDraft, setPendingDraft] = useState<PostDraft | null>(null);
+  const [draftIsStale, setDraftIsStale] = useState(false); // The file changed on disk after the draft's edits began
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const autosaveStateRef = useRef<AutosaveState | null>(null);
   
   // Handle tab changes and update URL fragment
-  const handleTabChange = (tab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt') => {
+  const handleTabChange = (tab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history') => {
     setActiveTab(tab);
     // Update URL fragment without triggering navigation
     if (typeof window !== 'undefined') {
@@ -40,8 +83,8 @@ export default function PostEditor() {
   useEffect(() => {
     if (typeof window !== 'undefined') {
       const fragment = window.location.hash.replace('#', '');
-      if (['metadata', 'content', 'images', 'heroImagePrompt', 'inBlogImagePrompt'].includes(fragment)) {
-        setActiveTab(fragment as 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt');
+      if (['metadata', 'content', 'images', 'heroImagePrompt', 'inBlogImagePrompt', 'history'].includes(fragment)) {
+        setActiveTab(fragment as 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history');
       }
     }
   }, []);
@@ -61,6 +104,20 @@ export default function PostEditor() {
         } else if (data.post) {
           setPost(data.post);
           setOriginalPost(JSON.parse(JSON.stringify(data.post))); // Deep copy for comparison
+          setVersion(data.version);
+          setFrontmatterSchema(data.frontmatterSchema);
+          
+          // Offer a local draft whenever it differs from the file; one edited from an older version of the file
+          // (after a pull, a branch switch or a save elsewhere) is offered with a warning rather than thrown away
+          const draft = loadDraft(String(repoName), String(slug));
+          if (draft) {
+            if (JSON.stringify(draft.post) !== JSON.stringify(data.post)) {
+              setPendingDraft(draft);
+              setDraftIsStale(draft.version ? draft.version !== data.version : draft.savedAt <= (data.lastModified || 0));
+            } else {
+              clearDraft(String(repoName), String(slug));
+            }
+          }
         }
       } catch (err) {
         setError((err as Error).message || 'Failed to fetch post data');
@@ -72,7 +129,7 @@ export default function PostEditor() {
     if (repoName && slug) {
       fetchPost();
     }
-  }, [repoName, slug]);
+  }, [repoName, slug, branchChanges]);
   
   // Check if the post has unsaved changes
   const hasUnsavedChanges = useCallback(() => {
@@ -80,10 +137,76 @@ export default function PostEditor() {
     return JSON.stringify(post) !== JSON.stringify(originalPost);
   }, [post, originalPost]);
   
+  // Autosave unsaved changes to a local draft at most every few seconds while editing
+  useEffect(() => {
+    // Don't overwrite a draft the user hasn't restored or discarded yet
+    if (!post || !repoName || !slug || pendingDraft) return;
+    
+    autosaveStateRef.current = {
+      repoName: String(repoName),
+      slug: String(slug),
+      post,
+      base: originalPost,
+      version,
+      dirty: hasUnsavedChanges(),
+    };
+    if (autosaveTimerRef.current) return;
+    
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      if (autosaveStateRef.current) {
+        writeAutosave(autosaveStateRef.current);
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+  }, [post, originalPost, version, repoName, slug, pendingDraft, hasUnsavedChanges]);
+  
+  // Write a pending autosave right away when leaving the editor
+  useEffect(() => {
+    return () => {
+      if (autosaveTimerRef.current) {
+        clearTimeout(autosaveTimerRef.current);
+        autosaveTimerRef.current = null;
+        if (autosaveStateRef.current) {
+          writeAutosave(autosaveStateRef.current);
+        }
+      }
+    };
+  }, []);
+  
+  // Replace the loaded post with the local draft
+  // A draft of an older version keeps that version as its base, so saving it runs into the conflict check
+  // and the newer changes on disk are merged instead of overwritten
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    if (pendingDraft.version && pendingDraft.version !== version && pendingDraft.base) {
+      setOriginalPost(JSON.parse(JSON.stringify(pendingDraft.base)));
+      setVersion(pendingDraft.version);
+    }
+    setPost(pendingDraft.post);
+    setPendingDraft(null);
+  };
+  
+  const handleDiscardDraft = () => {
+    clearDraft(String(repoName), String(slug));
+    setPendingDraft(null);
+  };
+  
+  // Show metadata fields the server rejected next to their inputs, keeping the editor open to fix them
+  const showFieldErrors = (errors: FrontmatterFieldError[]) => {
+    setFieldErrors(errors);
+    handleTabChange('metadata');
+  };
+  
   // Save changes
   const handleSave = async () => {
     if (!post) return;
     
+    // A changed slug is a rename: move the file and uploads folder, then reopen the post at its new URL
+    if (post.frontmatter.slug !== slug) {
+      await handleRename(post.frontmatter.slug);
+      return;
+    }
+    
     try {
       setSaving(true);
       const response = await fetch(`/api/posts/${repoName}/${slug}`, {
@@ -91,16 +214,23 @@ export default function PostEditor() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ post }),
+        body: JSON.stringify({ post, version }),
       });
       
       const data = await response.json();
       
-      if (data.error) {
+      if (data.conflict) {
+        setConflict(data.conflict);
+      } else if (data.fieldErrors) {
+        showFieldErrors(data.fieldErrors);
+      } else if (data.error) {
         setError(data.error);
       } else {
         // Update originalPost to reflect saved changes
         setOriginalPost(JSON.parse(JSON.stringify(post)));
+        setVersion(data.version);
+        setFieldErrors([]);
+        clearDraft(String(repoName), String(slug));
         // Show success message or notification
       }
     } catch (err) {
@@ -110,9 +240,107 @@ export default function PostEditor() {
     }
   };
   
+  // Rename the post to a new slug (also saves any other pending changes)
+  const handleRename = async (newSlug: string) => {
+    if (!post) return;
+    
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/posts/${repoName}/${slug}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ newSlug, post, version }),
+      });
+      
+      const data = await response.json();
+      
+      if (data.conflict) {
+        setConflict(data.conflict);
+      } else if (data.fieldErrors) {
+        showFieldErrors(data.fieldErrors);
+      } else if (data.error) {
+        setError(data.error);
+      } else if (data.post) {
+        setPost(data.post);
+        setOriginalPost(JSON.parse(JSON.stringify(data.post)));
+        setVersion(data.version);
+        setFieldErrors([]);
+        clearDraft(String(repoName), String(slug));
+        skipUnsavedCheckRef.current = true;
+        router.replace(`/editor/${repoName}/${newSlug}${page ? `?page=${page}` : ''}${window.location.hash}`);
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to rename post');
+    } finally {
+      setSaving(false);
+    }
+  };
+  
+  // Commit the selected files of this post, then optionally push them as a separate step
+  const handleCommitPost = async (message: string, files: string[], push: boolean) => {
+    try {
+      setCommitting(true);
+      const response = await fetch(`/api/repositories/commit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName, message, files }),
+      });
+      
+      const data = await response.json();
+      
+      if (data.error) {
+        showNotification('error', data.error);
+        return;
+      }
+      
+      setShowCommitModal(false);
+      
+      if (!push) {
+        showNotification('success', 'Post committed');
+        return;
+      }
+      
+      const pushResponse = await fetch(`/api/repositories/push`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repoName }),
+      });
+      const pushData = await pushResponse.json();
+      
+      // The commit is kept either way; it can be pushed later from the header
+      if (pushData.error) {
+        showNotification('warning', `Post committed, but the push failed: ${pushData.error}`);
+      } else {
+        showNotification('success', 'Post committed and pushed');
+      }
+    } catch (err) {
+      showNotification('error', (err as Error).message || 'Failed to commit post');
+    } finally {
+      setCommitting(false);
+      setSyncRefreshKey(key => key + 1);
+    }
+  };
+  
+  // Take the merged post; the version on disk becomes the new base for the next save
+  const handleConflictResolve = (merged: BlogPost) => {
+    if (!conflict) return;
+    setPost(merged);
+    setOriginalPost(JSON.parse(JSON.stringify(conflict.post)));
+    setVersion(conflict.version);
+    setConflict(null);
+  };
+  
   // Update frontmatter
   const handleFrontmatterChange = (frontmatter: Partial<BlogPost['frontmatter']>) => {
     if (!post) return;
+    // Errors from the last save no longer apply to the edited fields
+    setFieldErrors(prev => prev.filter(fieldError => !(fieldError.field in frontmatter)));
     setPost({
       ...post,
       frontmatter: {
@@ -131,6 +359,19 @@ export default function PostEditor() {
     });
   };
   
+  // Load a version from the post's history into the editor; it stays unsaved until the user saves it
+  const handleRestoreVersion = (version: BlogPost, commit: PostCommit) => {
+    if (!post) return;
+    setPost({
+      ...version,
+      // Keep the current slug, the post may have been renamed since
+      frontmatter: { ...version.frontmatter, slug: post.frontmatter.slug },
+    });
+    setFieldErrors([]);
+    handleTabChange('content');
+    showNotification('info', `Loaded the version from ${commit.hash.slice(0, 7)}. Review it, then save to keep it.`);
+  };
+  
   // Replace an image
   const handleImageReplace = async (oldImage: BlogImage, newImageFile: File) => {
     if (!post || !repoName) return;
@@ -193,6 +434,10 @@ export default function PostEditor() {
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       if (hasUnsavedChanges()) {
+        // Keep the latest changes even if the user leaves anyway
+        if (post) {
+          saveDraft(String(repoName), String(slug), post, originalPost, version);
+        }
         e.preventDefault();
         e.returnValue = '';
         return '';
@@ -204,11 +449,15 @@ export default function PostEditor() {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [hasUnsavedChanges]);
+  }, [hasUnsavedChanges, post, originalPost, version, repoName, slug]);
   
   // Handle router changes
   useEffect(() => {
     const handleRouteChange = () => {
+      if (skipUnsavedCheckRef.current) {
+        skipUnsavedCheckRef.current = false;
+        return;
+      }
       if (hasUnsavedChanges()) {
         const confirm = window.confirm('You have unsaved changes. Are you sure you want to leave?');
         if (!confirm) {
@@ -230,6 +479,16 @@ export default function PostEditor() {
       <Header
         onCommitClick={() => {}} // Will be implemented in the parent component
         showCommitButton={false} // Hide commit button on editor page
+        repoName={repoName ? String(repoName) : undefined}
+        syncRefreshKey={syncRefreshKey}
+        suggestedBranch={slug ? `draft/${slug}` : undefined}
+        canSwitchBranch={!hasUnsavedChanges()}
+        onBranchChange={() => {
+          // Creating a branch keeps the working tree, so unsaved edits stay in the editor
+          if (!hasUnsavedChanges()) {
+            setBranchChanges(count => count + 1);
+          }
+        }}
       />
       
       <main className="container mx-auto px-4 py-8 dark:bg-gray-900 dark:text-white">
@@ -279,6 +538,16 @@ export default function PostEditor() {
                   >
                     Back to List
                   </Button>
+                  <Button
+                    onClick={() => setShowCommitModal(true)}
+                    disabled={saving || hasUnsavedChanges()}
+                    variant="outline"
+                    size="md"
+                    title={hasUnsavedChanges() ? 'Save your changes before committing' : 'Commit and push the changes to this post'}
+                    className="w-full sm:w-auto"
+                  >
+                    Commit Post
+                  </Button>
                   <Button
                     onClick={handleSave}
                     disabled={saving || !hasUnsavedChanges()}
@@ -293,30 +562,73 @@ export default function PostEditor() {
               </div>
             </div>
             
+            {pendingDraft && (
+              <div className="mb-6 bg-blue-50 dark:bg-blue-900/20 border border-blue-300 dark:border-blue-700 text-blue-800 dark:text-blue-200 px-4 py-3 rounded flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm">
+                  <span className="font-medium">Restore unsaved draft?</span> There are unsaved changes to this post from{' '}
+                  {new Date(pendingDraft.savedAt).toLocaleString()}.
+                  {draftIsStale && (
+                    <span className="block mt-1 text-amber-700 dark:text-amber-300">
+                      The file changed since this draft was made. Restoring it and saving will ask you to merge the two.
+                    </span>
+                  )}
+                </p>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button onClick={handleDiscardDraft} variant="outline" size="sm">
+                    Discard
+                  </Button>
+                  <Button onClick={handleRestoreDraft} variant="primary" size="sm">
+                    Restore draft
+                  </Button>
+                </div>
+              </div>
+            )}
+            
+            {fieldErrors.length > 0 && (
+              <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded text-sm">
+                {fieldErrors.length === 1 ? 'A metadata field is' : `${fieldErrors.length} metadata fields are`} invalid.
+                Fix the highlighted {fieldErrors.length === 1 ? 'field' : 'fields'} in the Metadata tab and save again.
+              </div>
+            )}
+            
             <EditorToolbar
               activeTab={activeTab}
               onTabChange={handleTabChange}
-              isPreviewMode={isPreviewMode}
-              onTogglePreview={() => setIsPreviewMode(!isPreviewMode)}
+              viewMode={viewMode}
+              onViewModeChange={setViewMode}
             />
             
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900">
               {activeTab === 'metadata' && (
                 <MetadataEditor
                   frontmatter={post.frontmatter}
+                  schema={frontmatterSchema}
+                  fieldErrors={fieldErrors}
+                  originalSlug={String(slug)}
                   onChange={handleFrontmatterChange}
                 />
               )}
               
-              {activeTab === 'content' && (
-                isPreviewMode ? (
-                  <MdxPreview content={post.content} repoName={String(repoName)} />
-                ) : (
-                  <ContentEditor
-                    content={post.content}
-                    onChange={handleContentChange}
-                  />
-                )
+              {activeTab === 'content' && viewMode === 'preview' && (
+                <MdxPreview content={post.content} repoName={String(repoName)} />
+              )}
+              
+              {activeTab === 'content' && viewMode === 'split' && (
+                <SplitPaneEditor
+                  content={post.content}
+                  onChange={handleContentChange}
+                  repoName={String(repoName)}
+                  slug={String(slug)}
+                />
+              )}
+              
+              {activeTab === 'content' && viewMode === 'edit' && (
+                <ContentEditor
+                  content={post.content}
+                  onChange={handleContentChange}
+                  repoName={String(repoName)}
+                  slug={String(slug)}
+                />
               )}
               
               {activeTab === 'images' && post && (
@@ -339,6 +651,14 @@ export default function PostEditor() {
                   content={post.content}
                 />
               )}
+              
+              {activeTab === 'history' && (
+                <PostHistory
+                  repoName={String(repoName)}
+                  slug={String(slug)}
+                  onRestore={handleRestoreVersion}
+                />
+              )}
             </div>
           </div>
         ) : (
@@ -356,6 +676,27 @@ export default function PostEditor() {
           </div>
         )}
       </main>
+      
+      {showCommitModal && post && (
+        <CommitChangesModal
+          repoName={String(repoName)}
+          slug={String(slug)}
+          defaultMessage={`Update ${post.frontmatter.title}`}
+          onClose={() => setShowCommitModal(false)}
+          onCommit={handleCommitPost}
+          loading={committing}
+        />
+      )}
+      
+      {conflict && post && originalPost && (
+        <PostConflictModal
+          base={originalPost}
+          theirs={conflict.post}
+          mine={post}
+          onResolve={handleConflictResolve}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </>
   );
 }
@@ -7,9 +7,11 @@ import PostsList from '@/components/PostsList';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import CommitChangesModal from '@/components/CommitChangesModal';
+import { useComponentManifestContext } from '@/contexts/ComponentManifestContext';
 
 export default function Home() {
   const router = useRouter();
+  const { setManifest } = useComponentManifestContext();
   const { repo: repoNameFromUrl, page: pageFromUrl } = router.query;
   
   const [repositories, setRepositories] = useState<Repository[]>([]);
@@ -17,6 +19,8 @@ export default function Home() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCommitModal, setShowCommitModal] = useState(false);
+  const [syncRefreshKey, setSyncRefreshKey] = useState(0);
+  const [branchChanges, setBranchChanges] = useState(0); // Remounts the posts list after switching branches
   const [page, setPage] = useState(pageFromUrl && !isNaN(Number(pageFromUrl)) ? Number(pageFromUrl) : 1);
   const postsPerPage = 10;
   
@@ -41,12 +45,19 @@ export default function Home() {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ repoName: repoToSelect.name }),
-        }).catch(err => {
-          console.error('Error selecting repository:', err);
-        });
+        })
+          .then(response => response.json())
+          .then(data => {
+            if (data.componentManifest) {
+              setManifest(repoToSelect.name, data.componentManifest);
+            }
+          })
+          .catch(err => {
+            console.error('Error selecting repository:', err);
+          });
       }
     }
-  }, [pageFromUrl, repoNameFromUrl, repositories, currentRepo]);
+  }, [pageFromUrl, repoNameFromUrl, repositories, currentRepo, setManifest]);
 
   // Load repositories on component mount
   useEffect(() => {
@@ -100,6 +111,11 @@ export default function Home() {
         
         setCurrentRepo(repo);
         
+        // Keep the preview components in sync with the selected repository
+        if (data.componentManifest) {
+          setManifest(repo.name, data.componentManifest);
+        }
+        
         // Only reset to page 1 when explicitly switching repositories from the dropdown
         if (isRepoChange) {
           // When explicitly changing repos, reset to page 1
@@ -121,8 +137,8 @@ export default function Home() {
   
 
 
-  // Handle commit and push
-  const handleCommitChanges = async (message: string) => {
+  // Commit the selected files, then optionally push them as a separate step
+  const handleCommitChanges = async (message: string, files: string[], push: boolean) => {
     if (!currentRepo) return;
     
     try {
@@ -134,7 +150,8 @@ export default function Home() {
         },
         body: JSON.stringify({ 
           repoName: currentRepo.name,
-          message 
+          message,
+          files,
         }),
       });
       
@@ -142,14 +159,31 @@ export default function Home() {
       
       if (data.error) {
         setError(data.error);
-      } else {
-        setShowCommitModal(false);
-        // Show success message or notification here
+        return;
+      }
+      
+      setShowCommitModal(false);
+      
+      if (push) {
+        const pushResponse = await fetch(`/api/repositories/push`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ repoName: currentRepo.name }),
+        });
+        const pushData = await pushResponse.json();
+        
+        // The commit is kept either way; it can be pushed later from the header
+        if (pushData.error) {
+          setError(`Changes committed, but the push failed: ${pushData.error}`);
+        }
       }
     } catch (err) {
       setError((err as Error).message || 'Failed to commit changes');
     } finally {
       setLoading(false);
+      setSyncRefreshKey(key => key + 1);
     }
   };
 
@@ -165,6 +199,9 @@ export default function Home() {
       <Header 
         onCommitClick={() => setShowCommitModal(true)} 
         showCommitButton={Boolean(currentRepo)} 
+        repoName={currentRepo?.name}
+        syncRefreshKey={syncRefreshKey}
+        onBranchChange={() => setBranchChanges(count => count + 1)}
       />
       
       <main className="container mx-auto px-4 py-8 dark:bg-gray-900">
@@ -190,11 +227,13 @@ export default function Home() {
             currentRepo={currentRepo} 
             onSelectRepo={handleSelectRepo}
             loading={loading} 
+            onPulled={() => setSyncRefreshKey(key => key + 1)}
           />
         </div>
         
         {currentRepo && (
           <PostsList 
+            key={branchChanges}
             repoName={currentRepo.name} 
             currentPage={page}
             postsPerPage={postsPerPage}
@@ -210,8 +249,9 @@ export default function Home() {
       
       <Footer />
       
-      {showCommitModal && (
+      {showCommitModal && currentRepo && (
         <CommitChangesModal 
+          repoName={currentRepo.name}
           onClose={() => setShowCommitModal(false)} 
           onCommit={handleCommitChanges}
           loading={loading}
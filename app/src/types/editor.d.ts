@@ -1,10 +1,12 @@
 // Type declarations for editor components
 declare module '@/components/editor/EditorToolbar' {
+  import { ContentViewMode } from '@/types';
+
   export interface EditorToolbarProps {
-    activeTab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt';
-    onTabChange: (tab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt') => void;
-    isPreviewMode: boolean;
-    onTogglePreview: () => void;
+    activeTab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history';
+    onTabChange: (tab: 'metadata' | 'content' | 'images' | 'heroImagePrompt' | 'inBlogImagePrompt' | 'history') => void;
+    viewMode: ContentViewMode;
+    onViewModeChange: (mode: ContentViewMode) => void;
   }
   
   const EditorToolbar: React.FC<EditorToolbarProps>;
@@ -9,6 +9,24 @@ export interface Repository {
   url: string;
   isCurrent: boolean;
   isCloned: boolean;
+  isShallow?: boolean; // Cloned with a limited depth, so older history is missing
+}
+
+// How much of a repository to download when cloning:
+// everything, the last `depth` commits, or all commits without file contents (fetched when needed)
+export type CloneMode = 'full' | 'shallow' | 'blobless';
+
+export interface CloneOptions {
+  mode: CloneMode;
+  depth?: number; // Commits to fetch in shallow mode
+}
+
+// Progress of a long-running git command, e.g. "receiving" objects at 40%
+export interface GitProgress {
+  stage: string;
+  progress: number; // Percentage of the current stage
+  processed: number;
+  total: number;
 }
 
 // Represents the frontmatter of an MDX file
@@ -24,13 +42,51 @@ export interface BlogPostFrontmatter {
   heroImage: string; // Path to hero image
   heroImagePrompt?: string; // Optional AI prompt used to generate the image
   quiz?: QuizQuestion[]; // Optional quiz section
+  [field: string]: unknown; // Repository-specific fields declared in the frontmatter schema
+}
+
+// Kinds of frontmatter fields the metadata form knows how to edit
+export type FrontmatterFieldType =
+  | 'string'
+  | 'text' // Multi-line string
+  | 'slug'
+  | 'date'
+  | 'url'
+  | 'number'
+  | 'boolean'
+  | 'enum'
+  | 'list' // List of strings, edited as tags
+  | 'image' // Image path, managed from the Images tab
+  | 'quiz'; // List of quiz questions (QuizQuestion)
+
+// Definition of a single frontmatter field in a repository's frontmatter schema
+export interface FrontmatterFieldSchema {
+  type: FrontmatterFieldType;
+  label?: string;
+  description?: string; // Help text shown under the field
+  required?: boolean;
+  options?: string[]; // Allowed values for enum fields
+  default?: unknown; // Value used for new posts
+}
+
+// Per-repository frontmatter schema (frontmatter.schema.json at the repository root)
+// Fields are shown in the metadata form in the order they are declared
+export interface FrontmatterSchema {
+  fields: Record<string, FrontmatterFieldSchema>;
+  errors?: string[]; // Problems found while reading the schema file, invalid fields are skipped
+}
+
+// Validation error for a single frontmatter field
+export interface FrontmatterFieldError {
+  field: string;
+  message: string;
 }
 
 // Optional quiz structure for blog posts
 export interface QuizQuestion {
   q: string;
   options: string[];
-  answer: number;
+  answer: number; // Index of the correct option
 }
 
 // Represents a complete blog post with content
@@ -66,6 +122,77 @@ export interface GitOperation {
   error?: string;
 }
 
+// A file with uncommitted changes in a repository
+export interface ChangedFile {
+  path: string; // Relative to the repository root
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  from?: string; // Previous path of a renamed file
+}
+
+// A changed text file as of the last commit and in the working tree
+export interface FileDiff {
+  path: string;
+  oldContent: string; // Empty for new files
+  newContent: string; // Empty for deleted files
+}
+
+// How far the current branch is from its upstream branch
+export interface SyncStatus {
+  branch: string | null;
+  tracking: string | null; // Upstream branch, e.g. origin/main; null when the branch has none
+  ahead: number; // Local commits not pushed yet
+  behind: number; // Upstream commits not pulled yet
+}
+
+// Why git refused a push
+export type PushFailureReason = 'non-fast-forward' | 'auth' | 'no-upstream' | 'network' | 'unknown';
+
+// A commit that touched a post's file or uploads folder
+export interface PostCommit {
+  hash: string;
+  author: string;
+  date: string; // ISO 8601
+  message: string;
+  shallowBoundary?: boolean; // Oldest fetched commit of a shallow clone; it shows every file as added, so it may not have changed the post
+}
+
+// Commits of a post, newest first; a shallow clone may be missing older ones
+export interface PostHistory {
+  commits: PostCommit[];
+  shallow: boolean;
+}
+
+// A branch of a repository, local or only on the remote
+export interface BranchInfo {
+  name: string; // Without the remote prefix, e.g. draft/my-post
+  current: boolean;
+  remoteOnly: boolean; // Exists on origin but hasn't been checked out yet
+}
+
+// A pull request opened through the configured forge API
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+}
+
+// How a pull updated the current branch, or why it could not
+export type PullOutcome = 'up-to-date' | 'fast-forward' | 'merged' | 'conflicted' | 'blocked';
+
+export interface PullResult {
+  outcome: PullOutcome;
+  conflictedFiles: string[]; // Files the merge left with conflicts
+  conflictedPosts: string[]; // Slugs of the posts among the conflicted files
+  blockingFiles: string[]; // Uncommitted local files the pull would have overwritten
+}
+
+// The versions of a conflicted file in an unfinished merge; null when the file doesn't exist on that side
+export interface ConflictVersions<T = string> {
+  path: string;
+  base: T | null; // Common ancestor
+  ours: T | null; // Local branch
+  theirs: T | null; // Upstream branch being merged in
+}
+
 // Application state interface
 export interface AppState {
   repositories: Repository[];
@@ -86,6 +213,9 @@ export interface AppState {
   };
 }
 
+// How the content tab shows the post: editor only, editor and preview side by side, or preview only
+export type ContentViewMode = 'edit' | 'split' | 'preview';
+
 // Parameters for image replacement operation
 export interface ImageReplaceParams {
   postSlug: string;
@@ -93,3 +223,89 @@ export interface ImageReplaceParams {
   newImage: File;
   isHeroImage: boolean;
 }
+
+// Preview definition for a custom MDX component declared in a repository's component manifest
+export interface ComponentPreviewDefinition {
+  renderer?: string; // Name of a built-in preview renderer to reuse (e.g. "Callout")
+  template?: string; // HTML template with {{prop}} and {{children}} placeholders
+  props?: Record<string, string | number | boolean>; // Default props merged under the ones used in the MDX
+}
+
+// Per-repository components manifest (mdx-components.json at the repository root)
+export interface ComponentManifest {
+  components: Record<string, ComponentPreviewDefinition>;
+  errors?: string[]; // Problems found while reading the manifest, entries with errors are skipped
+}
+
+// How git authenticates with a repository's remote: an HTTPS personal access token or an SSH deploy key
+export type GitCredentialType = 'https-token' | 'ssh-key';
+
+// A stored credential, including its secret; only ever read on the server
+export interface GitCredential {
+  type: GitCredentialType;
+  username?: string; // HTTPS user name; most forges accept any non-empty name with a token
+  token?: string;
+  privateKey?: string; // PEM or OpenSSH private key, without a passphrase
+}
+
+// What the UI is told about a stored credential
+export interface GitCredentialSummary {
+  repoName: string;
+  type: GitCredentialType;
+  username?: string;
+  hint?: string; // Last characters of a token, to tell tokens apart
+  updatedAt: string;
+}
+
+// State of one image returned by an image generation provider
+export type GeneratedImageStatus = 'finished_successfully' | 'in_progress' | 'unknown';
+
+// An image produced (or still being produced) for a generation job
+export interface GeneratedImage {
+  id: string;
+  altText: string;
+  downloadUrl: string | null; // Null while the image is still in progress
+  status: GeneratedImageStatus;
+  dimensions?: { width: number; height: number };
+  sizeBytes?: number;
+}
+
+// What a provider reports about a generation job
+export interface ImageGenerationStatus {
+  images: GeneratedImage[];
+  completed: number;
+  inProgress: number;
+}
+
+// Where a queued image generation job is: waiting its turn, waiting on the provider, saving the image,
+// waiting for review (batch jobs), done, turned down in review, or given up
+export type ImageJobStatus = 'queued' | 'generating' | 'downloading' | 'staged' | 'replaced' | 'rejected' | 'failed';
+
+// What the editor can do with a job's candidate images: use one, drop them, or generate more
+export type ImageReviewAction = 'accept' | 'reject' | 'regenerate';
+
+// Generating one post image and writing it over the current file
+export interface ImageJob {
+  id: string;
+  repoName: string;
+  slug: string;
+  imagePath: string; // The post image the generated one replaces
+  type: 'hero' | 'inblog';
+  placeholderNumber?: number; // Index among the post's in-blog images
+  status: ImageJobStatus;
+  review?: boolean; // Part of a batch: the image is staged for review instead of replacing the file
+  provider?: string;
+  providerJobId?: string; // The provider's own id for the job, once the prompt was submitted
+  candidateCount?: number; // Images the provider returned, cached on the server until the job is cleared
+  selectedCandidate?: number; // The candidate written to the post
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  updatedAt: string;
+}
+
+// Streamed to the editor: every job of the post when it connects, then each change
+export type ImageJobEvent =
+  | { type: 'snapshot'; jobs: ImageJob[] }
+  | { type: 'job'; job: ImageJob }
+  | { type: 'removed'; job: ImageJob };
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isQuiz, validateFrontmatter } from '@/utils/frontmatterSchema';
+import { FrontmatterSchema } from '@/types';
+
+const schema: FrontmatterSchema = { fields: { quiz: { type: 'quiz' } } };
+
+describe('quiz validation', () => {
+  it('accepts a well-formed quiz', () => {
+    const quiz = [{ q: 'Pick one', options: ['a', 'b'], answer: 1 }];
+    expect(isQuiz(quiz)).toBe(true);
+    expect(validateFrontmatter({ quiz }, schema)).toEqual([]);
+  });
+
+  it.each([
+    ['a question without options', [{ q: 'Pick one', answer: 0 }]],
+    ['a question that is not text', [{ q: 42, options: ['a', 'b'], answer: 0 }]],
+    ['a question that is not an object', ['Pick one']],
+    ['a quiz that is not a list', { q: 'Pick one' }],
+  ])('reports %s as a field error instead of throwing', (_, quiz) => {
+    expect(isQuiz(quiz)).toBe(false);
+    expect(validateFrontmatter({ quiz }, schema)).toEqual([
+      { field: 'quiz', message: 'Must be a list of questions with q, options and answer' },
+    ]);
+  });
+
+  it('names the first question with a problem', () => {
+    const quiz = [
+      { q: 'Fine', options: ['a', 'b'], answer: 0 },
+      { q: ' ', options: ['a', 'b'], answer: 5 },
+    ];
+    expect(validateFrontmatter({ quiz }, schema)).toEqual([
+      { field: 'quiz', message: 'Question 2: enter the question, choose the correct answer' },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { describe, expect, it } from 'vitest';
+import { updateFrontmatterBlock, updateYamlSource } from '@/utils/frontmatterYaml';
+import { parseMdxContent } from '@/utils/mdxOperations';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'frontmatter');
+
+const readFixture = (name: string) => fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+
+// Frontmatter as the editor sends it back: parsed from the file, then through JSON
+const editorFrontmatter = (fileContent: string): Record<string, unknown> =>
+  JSON.parse(JSON.stringify(parseMdxContent(fileContent).frontmatter));
+
+// Save a post the way saveBlogPost does: the updated frontmatter block followed by the content
+const save = (fileContent: string, frontmatter: Record<string, unknown>) => {
+  const block = updateFrontmatterBlock(fileContent, frontmatter);
+  expect(block).not.toBeNull();
+  return block + parseMdxContent(fileContent).content;
+};
+
+const lineEndingOf = (text: string) => (text.includes('\r\n') ? '\r\n' : '\n');
+
+// Lines that differ between two versions of a file with the same number of lines
+const changedLines = (before: string, after: string) => {
+  const beforeLines = before.split(lineEndingOf(before));
+  const afterLines = after.split(lineEndingOf(after));
+  expect(afterLines).toHaveLength(beforeLines.length);
+  return afterLines
+    .map((line, index) => ({ before: beforeLines[index], after: line }))
+    .filter(({ before: original, after: updated }) => original !== updated);
+};
+
+const FIXTURES = fs.readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.mdx')).sort();
+
+describe('updateFrontmatterBlock', () => {
+  it('has a fixture for each tricky case', () => {
+    expect(FIXTURES).toEqual([
+      'block-scalars.mdx',
+      'colons.mdx',
+      'comments.mdx',
+      'crlf.mdx',
+      'custom-key-order.mdx',
+      'empty-value.mdx',
+      'nested-quiz.mdx',
+      'quoted-values.mdx',
+    ]);
+  });
+
+  it.each(FIXTURES)('returns %s byte for byte when nothing was edited', name => {
+    const fileContent = readFixture(name);
+    expect(save(fileContent, editorFrontmatter(fileContent))).toBe(fileContent);
+  });
+
+  const edits: Array<{ fixture: string; edit: (frontmatter: Record<string, unknown>) => void; line: string }> = [
+    { fixture: 'quoted-values.mdx', edit: fm => { fm.author = 'John Roe'; }, line: 'author: "John Roe"' },
+    { fixture: 'quoted-values.mdx', edit: fm => { fm.category = 'Tips'; }, line: "category: 'Tips'" },
+    { fixture: 'colons.mdx', edit: fm => { fm.title = 'Kubernetes: the easy parts'; }, line: 'title: "Kubernetes: the easy parts"' },
+    { fixture: 'colons.mdx', edit: fm => { fm.excerpt = 'Deploying at 11:00 UTC: fine'; }, line: 'excerpt: "Deploying at 11:00 UTC: fine"' },
+    { fixture: 'colons.mdx', edit: fm => { fm.summary = 'Checklist: drain, upgrade'; }, line: "summary: 'Checklist: drain, upgrade'" },
+    { fixture: 'comments.mdx', edit: fm => { fm.title = 'Renamed post'; }, line: 'title: Renamed post # shown in the browser tab' },
+    { fixture: 'comments.mdx', edit: fm => { fm.featured = false; }, line: 'featured: false' },
+    { fixture: 'custom-key-order.mdx', edit: fm => { fm.draft = false; }, line: 'draft: false' },
+    { fixture: 'nested-quiz.mdx', edit: fm => { (fm.quiz as Array<{ answer: number }>)[1].answer = 0; }, line: '    answer: 0 # deliberately wrong, fixed in the edit test' },
+    { fixture: 'nested-quiz.mdx', edit: fm => { (fm.quiz as Array<{ q: string }>)[0].q = 'What is YAML?'; }, line: '  - q: "What is YAML?"' },
+    { fixture: 'block-scalars.mdx', edit: fm => { fm.title = 'Folded and literal'; }, line: 'title: Folded and literal' },
+    { fixture: 'empty-value.mdx', edit: fm => { fm.heroImage = '/images/uploads/empty-value/a.png'; }, line: 'heroImage: /images/uploads/empty-value/a.png' },
+    { fixture: 'empty-value.mdx', edit: fm => { fm.author = 'Sam'; }, line: 'author: Sam' },
+    { fixture: 'empty-value.mdx', edit: fm => { fm.heroImagePrompt = 'A cat'; }, line: 'heroImagePrompt: A cat # to be written' },
+    { fixture: 'empty-value.mdx', edit: fm => { (fm.tags as unknown[])[0] = 'first'; }, line: '  - first' },
+    { fixture: 'crlf.mdx', edit: fm => { fm.author = 'Chris'; }, line: 'author: "Chris"' },
+  ];
+
+  it.each(edits)('changes only the edited line of $fixture: $line', ({ fixture, edit, line }) => {
+    const fileContent = readFixture(fixture);
+    const frontmatter = editorFrontmatter(fileContent);
+    edit(frontmatter);
+
+    const saved = save(fileContent, frontmatter);
+
+    expect(changedLines(fileContent, saved).map(change => change.after)).toEqual([line]);
+    expect(editorFrontmatter(saved)).toEqual(frontmatter);
+  });
+
+  it('keeps CRLF line endings throughout the file', () => {
+    const fileContent = readFixture('crlf.mdx');
+    const frontmatter = { ...editorFrontmatter(fileContent), category: 'Tips' };
+
+    const saved = save(fileContent, frontmatter);
+
+    expect(saved.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(saved).toBe(fileContent.replace('category: Windows', 'category: Tips'));
+  });
+
+  it('returns null for a file without frontmatter', () => {
+    expect(updateFrontmatterBlock('# Just content\n', { title: 'x' })).toBeNull();
+  });
+});
+
+describe('updateYamlSource', () => {
+  it('adds new keys at the end and removes cleared ones', () => {
+    const source = 'title: Post # keep me\ndraft: true\n';
+    expect(updateYamlSource(source, { title: 'Post', draft: true }, { title: 'Post', series: 'basics' }))
+      .toBe('title: Post # keep me\nseries: basics\n');
+  });
+});
@@ -0,0 +1,125 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { openPullRequest, parseRepoFullName } from '@/utils/pullRequests';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A stand-in forge: records each request and answers with whatever the test sets
+let received: ReceivedRequest[] = [];
+let reply = { status: 201, body: {} as Record<string, unknown> };
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    received.push({ method: req.method, url: req.url, headers: req.headers, body });
+    res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  });
+});
+
+const ENV_KEYS = ['PULL_REQUEST_API_URL', 'PULL_REQUEST_API_TOKEN', 'PULL_REQUEST_REPO'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  received = [];
+  reply = { status: 201, body: {} };
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  }
+});
+
+const useForge = (env: Partial<Record<typeof ENV_KEYS[number], string>> = {}) => {
+  const { port } = server.address() as AddressInfo;
+  process.env.PULL_REQUEST_API_URL = `http://127.0.0.1:${port}/api/v1/`;
+  delete process.env.PULL_REQUEST_API_TOKEN;
+  delete process.env.PULL_REQUEST_REPO;
+  Object.assign(process.env, env);
+};
+
+describe('openPullRequest', () => {
+  it('posts the pull request to the repository read from the origin URL', async () => {
+    useForge({ PULL_REQUEST_API_TOKEN: 'secret' });
+    reply.body = { number: 7, html_url: 'https://git.example.com/team/blog/pulls/7' };
+
+    const result = await openPullRequest('git@git.example.com:team/blog.git', {
+      head: 'draft/new-post',
+      base: 'main',
+      title: 'New post',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      pullRequest: { number: 7, url: 'https://git.example.com/team/blog/pulls/7' },
+    });
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/api/v1/repos/team/blog/pulls');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers.authorization).toBe('Bearer secret');
+    expect(JSON.parse(request.body)).toEqual({ title: 'New post', head: 'draft/new-post', base: 'main', body: '' });
+  });
+
+  it('sends no token when none is configured and prefers PULL_REQUEST_REPO', async () => {
+    useForge({ PULL_REQUEST_REPO: 'other/site' });
+
+    await openPullRequest('https://git.example.com/team/blog', { head: 'a', base: 'main', title: 't', body: 'Notes' });
+
+    expect(received[0].url).toBe('/api/v1/repos/other/site/pulls');
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(JSON.parse(received[0].body).body).toBe('Notes');
+  });
+
+  it('returns the reason the forge gives for refusing', async () => {
+    useForge();
+    reply = {
+      status: 422,
+      body: { message: 'Validation Failed', errors: [{ message: 'A pull request already exists for team:a.' }] },
+    };
+
+    const result = await openPullRequest('https://git.example.com/team/blog.git', { head: 'a', base: 'main', title: 't' });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'The forge refused the pull request (422): Validation Failed: A pull request already exists for team:a.',
+    });
+  });
+
+  it('does not call the forge when the hook is not configured', async () => {
+    delete process.env.PULL_REQUEST_API_URL;
+
+    const result = await openPullRequest('https://git.example.com/team/blog.git', { head: 'a', base: 'main', title: 't' });
+
+    expect(result.success).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('parseRepoFullName', () => {
+  it.each([
+    ['git@github.com:team/blog.git', 'team/blog'],
+    ['https://git.example.com/team/blog', 'team/blog'],
+    ['ssh://git@git.example.com:2222/team/blog.git/', 'team/blog'],
+  ])('reads %s', (url, expected) => {
+    expect(parseRepoFullName(url)).toBe(expected);
+  });
+});
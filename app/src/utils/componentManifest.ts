@@ -0,0 +1,104 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { ComponentManifest, ComponentPreviewDefinition } from '@/types';
+
+// File at the repository root declaring preview renderers for the repository's MDX components
+export const COMPONENT_MANIFEST_FILE = 'mdx-components.json';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a single manifest entry
+ * A string is shorthand for { template: string }
+ */
+const parseDefinition = (name: string, value: unknown): { definition?: ComponentPreviewDefinition; error?: string } => {
+  if (typeof value === 'string') {
+    return { definition: { template: value } };
+  }
+
+  if (!isPlainObject(value)) {
+    return { error: `${name}: expected a template string or an object` };
+  }
+
+  const { renderer, template, props } = value;
+
+  if (renderer !== undefined && typeof renderer !== 'string') {
+    return { error: `${name}: "renderer" must be a string` };
+  }
+  if (template !== undefined && typeof template !== 'string') {
+    return { error: `${name}: "template" must be a string` };
+  }
+  if (!renderer && !template) {
+    return { error: `${name}: either "renderer" or "template" is required` };
+  }
+
+  const definition: ComponentPreviewDefinition = { renderer, template };
+
+  if (props !== undefined) {
+    if (!isPlainObject(props)) {
+      return { error: `${name}: "props" must be an object` };
+    }
+    const invalidProp = Object.entries(props).find(([, propValue]) =>
+      !['string', 'number', 'boolean'].includes(typeof propValue)
+    );
+    if (invalidProp) {
+      return { error: `${name}: prop "${invalidProp[0]}" must be a string, number or boolean` };
+    }
+    definition.props = props as Record<string, string | number | boolean>;
+  }
+
+  return { definition };
+};
+
+/**
+ * Read the components manifest of a repository
+ * Repositories without a manifest get an empty one; invalid entries are skipped and reported in errors
+ */
+export const readComponentManifest = async (repoPath: string): Promise<ComponentManifest> => {
+  const manifestPath = path.join(repoPath, COMPONENT_MANIFEST_FILE);
+
+  if (!await fs.pathExists(manifestPath)) {
+    return { components: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  } catch (error) {
+    console.error(`Error reading ${manifestPath}:`, error);
+    return {
+      components: {},
+      errors: [`${COMPONENT_MANIFEST_FILE} could not be parsed: ${(error as Error).message}`],
+    };
+  }
+
+  if (!isPlainObject(raw) || !isPlainObject(raw.components)) {
+    return {
+      components: {},
+      errors: [`${COMPONENT_MANIFEST_FILE} must contain a "components" object`],
+    };
+  }
+
+  const manifest: ComponentManifest = { components: {} };
+  const errors: string[] = [];
+
+  Object.entries(raw.components).forEach(([name, value]) => {
+    if (!/^[A-Z][\w$]*$/.test(name)) {
+      errors.push(`${name}: component names must start with a capital letter`);
+      return;
+    }
+    const { definition, error } = parseDefinition(name, value);
+    if (definition) {
+      manifest.components[name] = definition;
+    } else if (error) {
+      errors.push(error);
+    }
+  });
+
+  if (errors.length > 0) {
+    manifest.errors = errors;
+  }
+
+  return manifest;
+};
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { GitCredential, GitCredentialSummary } from '@/types';
+import { DATA_DIR } from '@/utils/dataDir';
+
+/**
+ * Per-repository git credentials, kept in an encrypted file under the app's data directory
+ *
+ * Configured with environment variables:
+ * - DATA_DIR: Where the app keeps its own data (defaults to ./data)
+ * - CREDENTIALS_SECRET: Passphrase the store is encrypted with. Without it a random key is generated
+ *   next to the store, which keeps the secrets out of plain sight but not away from someone who can read the data directory
+ */
+
+const STORE_FILE = path.join(DATA_DIR, 'credentials.enc');
+const KEY_FILE = path.join(DATA_DIR, 'credentials.key');
+
+interface StoredCredential extends GitCredential {
+  updatedAt: string;
+}
+
+type CredentialStore = Record<string, StoredCredential>;
+
+// Encrypted store file: AES-256-GCM with a key derived from the secret and a per-file salt
+interface EncryptedStore {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const getSecret = async (): Promise<string> => {
+  if (process.env.CREDENTIALS_SECRET) {
+    return process.env.CREDENTIALS_SECRET;
+  }
+  
+  if (!await fs.pathExists(KEY_FILE)) {
+    console.warn(`CREDENTIALS_SECRET is not set, generating a key in ${KEY_FILE}`);
+    await fs.ensureDir(DATA_DIR);
+    await fs.writeFile(KEY_FILE, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+  return (await fs.readFile(KEY_FILE, 'utf8')).trim();
+};
+
+const readStore = async (): Promise<CredentialStore> => {
+  if (!await fs.pathExists(STORE_FILE)) {
+    return {};
+  }
+  
+  const stored: EncryptedStore = await fs.readJson(STORE_FILE);
+  const key = crypto.scryptSync(await getSecret(), Buffer.from(stored.salt, 'base64'), 32);
+  
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(stored.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+    const json = Buffer.concat([decipher.update(Buffer.from(stored.data, 'base64')), decipher.final()]).toString('utf8');
+    return JSON.parse(json);
+  } catch {
+    throw new Error('Could not decrypt the credentials store. Was CREDENTIALS_SECRET changed?');
+  }
+};
+
+const writeStore = async (store: CredentialStore): Promise<void> => {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = crypto.scryptSync(await getSecret(), salt, 32);
+  
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(store), 'utf8'), cipher.final()]);
+  
+  const encrypted: EncryptedStore = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  
+  await fs.ensureDir(DATA_DIR);
+  // Write to a temporary file first so a crash can't leave a half-written store
+  const tempFile = `${STORE_FILE}.tmp`;
+  await fs.writeJson(tempFile, encrypted, { mode: 0o600 });
+  await fs.move(tempFile, STORE_FILE, { overwrite: true });
+};
+
+// Check a credential before storing it; returns an error message, or null when it's usable
+export const validateCredential = (credential: GitCredential): string | null => {
+  if (credential.type === 'https-token') {
+    return credential.token?.trim() ? null : 'An access token is required';
+  }
+  if (credential.type === 'ssh-key') {
+    return credential.privateKey && /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(credential.privateKey)
+      ? null
+      : 'A private key starting with "-----BEGIN ... PRIVATE KEY-----" is required';
+  }
+  return 'Credential type must be https-token or ssh-key';
+};
+
+const toSummary = (repoName: string, credential: StoredCredential): GitCredentialSummary => ({
+  repoName,
+  type: credential.type,
+  ...(credential.username ? { username: credential.username } : {}),
+  ...(credential.token ? { hint: `…${credential.token.slice(-4)}` } : {}),
+  updatedAt: credential.updatedAt,
+});
+
+// List the stored credentials without their secrets
+export const listCredentials = async (): Promise<GitCredentialSummary[]> => {
+  const store = await readStore();
+  return Object.entries(store)
+    .map(([repoName, credential]) => toSummary(repoName, credential))
+    .sort((a, b) => a.repoName.localeCompare(b.repoName));
+};
+
+export const getCredential = async (repoName: string): Promise<GitCredential | null> => {
+  const store = await readStore();
+  return store[repoName] || null;
+};
+
+// Store a repository's credential, replacing any it already had
+export const saveCredential = async (repoName: string, credential: GitCredential): Promise<GitCredentialSummary> => {
+  const store = await readStore();
+  
+  const stored: StoredCredential = credential.type === 'https-token'
+    ? {
+      type: 'https-token',
+      username: credential.username?.trim() || undefined,
+      token: credential.token?.trim(),
+      updatedAt: new Date().toISOString(),
+    }
+    : {
+      type: 'ssh-key',
+      // ssh refuses keys that don't end with a newline
+      privateKey: `${credential.privateKey?.trim()}\n`,
+      updatedAt: new Date().toISOString(),
+    };
+  
+  store[repoName] = stored;
+  await writeStore(store);
+  
+  return toSummary(repoName, stored);
+};
+
+// Remove a repository's credential; returns false when it had none
+export const deleteCredential = async (repoName: string): Promise<boolean> => {
+  const store = await readStore();
+  if (!store[repoName]) {
+    return false;
+  }
+  
+  delete store[repoName];
+  await writeStore(store);
+  return true;
+};
+
+/**
+ * Run git commands with a repository's stored credential, or with the given one instead (e.g. for a clone
+ * whose credential is only stored once the clone succeeds)
+ * `run` gets the environment to give git, or undefined when the repository has no credential
+ * and git should use whatever the server has set up (e.g. its SSH agent)
+ */
+export const withGitCredentials = async <T>(
+  repoName: string,
+  run: (env?: Record<string, string>) => Promise<T>,
+  override?: GitCredential
+): Promise<T> => {
+  const credential = override || await getCredential(repoName);
+  if (!credential) {
+    return run();
+  }
+  
+  const env: Record<string, string> = {
+    ...(process.env as Record<string, string>),
+    // Fail instead of waiting for someone to type a password
+    GIT_TERMINAL_PROMPT: '0',
+  };
+  
+  if (credential.type === 'https-token') {
+    // Configure a credential helper through the environment that answers with the token,
+    // so the token never shows up in command lines or git config files
+    Object.assign(env, {
+      GIT_CONFIG_COUNT: '2',
+      GIT_CONFIG_KEY_0: 'credential.helper',
+      GIT_CONFIG_VALUE_0: '',
+      GIT_CONFIG_KEY_1: 'credential.helper',
+      GIT_CONFIG_VALUE_1: '!f() { test "$1" = get && echo "username=${GIT_CREDENTIAL_USERNAME}" && echo "password=${GIT_CREDENTIAL_TOKEN}"; }; f',
+      GIT_CREDENTIAL_USERNAME: credential.username || 'x-access-token',
+      GIT_CREDENTIAL_TOKEN: credential.token || '',
+    });
+    return run(env);
+  }
+  
+  // ssh only reads keys from files, so the key is written to a private temporary file for the length of the command
+  const keyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-key-'));
+  const keyFile = path.join(keyDir, 'id');
+  try {
+    await fs.writeFile(keyFile, credential.privateKey || '', { mode: 0o600 });
+    env.GIT_SSH_COMMAND = `ssh -i '${keyFile}' -o IdentitiesOnly=yes -o StrictHostKeyChecking=accept-new -o BatchMode=yes`;
+    return await run(env);
+  } finally {
+    await fs.remove(keyDir);
+  }
+};
@@ -0,0 +1,7 @@
+import path from 'path';
+
+// Where the app keeps its own files (credentials, settings), as opposed to the content repositories
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+// Where the content repositories are cloned
+export const REPOS_DIR = process.env.REPOS_DIR || path.join(process.cwd(), 'repositories');
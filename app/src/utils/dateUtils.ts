@@ -40,6 +40,14 @@ export const getTodayDate = (): string => {
   return `${day}/${month}/${year}`;
 };
 
+/**
+ * Get today's date as an ISO date string at midnight UTC
+ * @returns Today's date in the same ISO format stored in frontmatter
+ */
+export const getTodayIsoDate = (): string => {
+  return parseDateFromDisplay(getTodayDate());
+};
+
 /**
  * Validate if a date string is in DD/MM/YYYY format
  * @param dateString - Date string to validate
@@ -0,0 +1,59 @@
+import { BlogPost } from '@/types';
+
+// An unsaved version of a post kept in the browser in case the tab crashes or is closed
+export interface PostDraft {
+  post: BlogPost;
+  base?: BlogPost; // The post as it was on disk when editing started, for a three-way merge with newer changes
+  version?: string | null; // Version of the file on disk the draft was edited from
+  savedAt: number; // Milliseconds since epoch
+}
+
+const getDraftKey = (repoName: string, slug: string) => `draft_${repoName}_${slug}`;
+
+/**
+ * Store the in-progress version of a post in localStorage
+ */
+export const saveDraft = (
+  repoName: string,
+  slug: string,
+  post: BlogPost,
+  base: BlogPost | null,
+  version: string | null
+) => {
+  try {
+    const draft: PostDraft = { post, ...(base ? { base } : {}), version, savedAt: Date.now() };
+    localStorage.setItem(getDraftKey(repoName, slug), JSON.stringify(draft));
+  } catch (error) {
+    // Storage can be full or disabled - autosave is best effort
+    console.error('Error saving draft to storage:', error);
+  }
+};
+
+/**
+ * Load the stored draft of a post, if there is one
+ */
+export const loadDraft = (repoName: string, slug: string): PostDraft | null => {
+  try {
+    const stored = localStorage.getItem(getDraftKey(repoName, slug));
+    if (stored) {
+      const draft = JSON.parse(stored) as PostDraft;
+      if (draft.post && typeof draft.savedAt === 'number') {
+        return draft;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading draft from storage:', error);
+  }
+  return null;
+};
+
+/**
+ * Remove the stored draft of a post, e.g. after it has been saved
+ */
+export const clearDraft = (repoName: string, slug: string) => {
+  try {
+    localStorage.removeItem(getDraftKey(repoName, slug));
+  } catch (error) {
+    console.error('Error removing draft from storage:', error);
+  }
+};
@@ -0,0 +1,19 @@
+// Content types of the image formats the app shows, by file extension
+export const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.avif': 'image/avif',
+};
+
+// Lowercase extension of a file path, including the dot (e.g. ".png")
+export const getFileExtension = (filePath: string): string => {
+  const match = filePath.match(/\.[^./\\]+$/);
+  return match ? match[0].toLowerCase() : '';
+};
+
+export const isImagePath = (filePath: string): boolean =>
+  getFileExtension(filePath) in IMAGE_CONTENT_TYPES;
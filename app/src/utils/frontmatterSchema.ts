@@ -0,0 +1,207 @@
+import {
+  FrontmatterFieldError,
+  FrontmatterFieldSchema,
+  FrontmatterFieldType,
+  FrontmatterSchema,
+  QuizQuestion,
+} from '@/types';
+import { isValidSlug } from '@/utils/slugUtils';
+
+// File at the repository root declaring the repository's frontmatter fields
+export const FRONTMATTER_SCHEMA_FILE = 'frontmatter.schema.json';
+
+const FIELD_TYPES: FrontmatterFieldType[] = ['string', 'text', 'slug', 'date', 'url', 'number', 'boolean', 'enum', 'list', 'image', 'quiz'];
+
+// Fields of repositories without a schema file - the layout this tool was originally built for
+export const DEFAULT_FRONTMATTER_SCHEMA: FrontmatterSchema = {
+  fields: {
+    title: { type: 'string', label: 'Title', required: true },
+    featured: { type: 'boolean', label: 'Featured Post', default: false },
+    slug: { type: 'string', label: 'Slug', required: true },
+    date: { type: 'date', label: 'Publication Date', required: true },
+    author: { type: 'string', label: 'Author' },
+    category: { type: 'string', label: 'Category' },
+    tags: { type: 'list', label: 'Tags', default: [] },
+    excerpt: { type: 'text', label: 'Excerpt' },
+    heroImage: { type: 'image', label: 'Hero Image Path', default: '' },
+    heroImagePrompt: { type: 'text', label: 'Hero Image Generation Prompt', description: 'AI prompt used to generate this image' },
+    quiz: { type: 'quiz', label: 'Quiz' },
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate the contents of a schema file
+ * Invalid field definitions are skipped and reported in errors
+ */
+export const parseFrontmatterSchema = (raw: unknown): FrontmatterSchema => {
+  if (!isPlainObject(raw) || !isPlainObject(raw.fields)) {
+    return { fields: {}, errors: [`${FRONTMATTER_SCHEMA_FILE} must contain a "fields" object`] };
+  }
+
+  const schema: FrontmatterSchema = { fields: {} };
+  const errors: string[] = [];
+
+  Object.entries(raw.fields).forEach(([name, value]) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${name}: expected an object`);
+      return;
+    }
+
+    const { type, label, description, required, options } = value;
+
+    if (typeof type !== 'string' || !FIELD_TYPES.includes(type as FrontmatterFieldType)) {
+      errors.push(`${name}: "type" must be one of ${FIELD_TYPES.join(', ')}`);
+      return;
+    }
+    if (type === 'enum' && (!Array.isArray(options) || options.length === 0 || !options.every(option => typeof option === 'string'))) {
+      errors.push(`${name}: enum fields need an "options" list of strings`);
+      return;
+    }
+
+    const field: FrontmatterFieldSchema = { type: type as FrontmatterFieldType };
+    if (typeof label === 'string') field.label = label;
+    if (typeof description === 'string') field.description = description;
+    if (typeof required === 'boolean') field.required = required;
+    if (type === 'enum') field.options = options as string[];
+    if ('default' in value) field.default = value.default;
+
+    schema.fields[name] = field;
+  });
+
+  // The slug names the post file, so every schema has one
+  if (!schema.fields.slug) {
+    schema.fields.slug = DEFAULT_FRONTMATTER_SCHEMA.fields.slug;
+  }
+
+  if (errors.length > 0) {
+    schema.errors = errors;
+  }
+
+  return schema;
+};
+
+// Label shown for a field in the form and in error messages
+export const getFieldLabel = (name: string, field: FrontmatterFieldSchema): string =>
+  field.label || name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, first => first.toUpperCase());
+
+/**
+ * Problems with a single quiz question, shown next to it in the quiz editor
+ */
+export const getQuizQuestionErrors = (question: QuizQuestion): string[] => {
+  const errors: string[] = [];
+
+  if (!question.q.trim()) {
+    errors.push('Enter the question');
+  }
+  if (question.options.length < 2) {
+    errors.push('Add at least two options');
+  }
+  if (question.options.some(option => !option.trim())) {
+    errors.push('Options can\'t be empty');
+  }
+  if (!Number.isInteger(question.answer) || question.answer < 0 || question.answer >= question.options.length) {
+    errors.push('Choose the correct answer');
+  }
+
+  return errors;
+};
+
+const isQuizQuestion = (value: unknown): value is QuizQuestion =>
+  isPlainObject(value)
+  && typeof value.q === 'string'
+  && Array.isArray(value.options)
+  && value.options.every(option => typeof option === 'string')
+  && typeof value.answer === 'number';
+
+// Whether a frontmatter value is a quiz the quiz editor can work with
+export const isQuiz = (value: unknown): value is QuizQuestion[] =>
+  Array.isArray(value) && value.every(isQuizQuestion);
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Check a single field value against its definition, returning an error message or null
+ */
+const validateField = (value: unknown, field: FrontmatterFieldSchema): string | null => {
+  if (isEmpty(value)) {
+    return field.required ? 'This field is required' : null;
+  }
+
+  switch (field.type) {
+    case 'string':
+    case 'text':
+    case 'image':
+      return typeof value === 'string' ? null : 'Must be text';
+    case 'slug':
+      return typeof value === 'string' && isValidSlug(value) ? null : 'Use lowercase letters, numbers and hyphens only';
+    case 'date':
+      return (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime()) ? null : 'Must be a valid date';
+    case 'url':
+      if (typeof value !== 'string') return 'Must be a URL';
+      try {
+        new URL(value);
+        return null;
+      } catch {
+        return 'Must be a full URL, e.g. https://example.com/page';
+      }
+    case 'number':
+      return typeof value === 'number' && !isNaN(value) ? null : 'Must be a number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Must be true or false';
+    case 'enum':
+      return typeof value === 'string' && (field.options || []).includes(value) ? null : `Must be one of: ${(field.options || []).join(', ')}`;
+    case 'list':
+      return Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'Must be a list of text values';
+    case 'quiz': {
+      if (!isQuiz(value)) {
+        return 'Must be a list of questions with q, options and answer';
+      }
+      const invalid = value.findIndex(question => getQuizQuestionErrors(question).length > 0);
+      return invalid === -1 ? null : `Question ${invalid + 1}: ${getQuizQuestionErrors(value[invalid]).join(', ').toLowerCase()}`;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validate frontmatter against a schema
+ * Fields that aren't in the schema are left alone. A slug field still holding currentSlug, the slug the post
+ * is saved under, only has to be present: the slug rule is checked when a post is created or renamed
+ */
+export const validateFrontmatter = (
+  frontmatter: Record<string, unknown>,
+  schema: FrontmatterSchema,
+  currentSlug?: string
+): FrontmatterFieldError[] => {
+  const errors: FrontmatterFieldError[] = [];
+
+  Object.entries(schema.fields).forEach(([name, field]) => {
+    const value = frontmatter[name];
+    const message = field.type === 'slug' && currentSlug !== undefined && value === currentSlug
+      ? validateField(value, { ...field, type: 'string' })
+      : validateField(value, field);
+    if (message) {
+      errors.push({ field: name, message });
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Default values declared in a schema, for new posts
+ */
+export const getSchemaDefaults = (schema: FrontmatterSchema): Record<string, unknown> => {
+  const defaults: Record<string, unknown> = {};
+  Object.entries(schema.fields).forEach(([name, field]) => {
+    if (field.default !== undefined) {
+      defaults[name] = field.default;
+    }
+  });
+  return defaults;
+};
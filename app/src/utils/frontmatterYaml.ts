@@ -0,0 +1,335 @@
+import matter from 'gray-matter';
+import {
+  Document,
+  isCollection,
+  isMap,
+  isScalar,
+  isSeq,
+  Node,
+  Pair,
+  ParsedNode,
+  parseDocument,
+  ToStringOptions,
+  YAMLMap,
+  YAMLSeq,
+} from 'yaml';
+
+// Frontmatter block at the start of a file: opening fence, YAML source, closing fence
+const FRONTMATTER_BLOCK = /^(---[ \t]*\r?\n)([\s\S]*?\r?\n)?(---[ \t]*(?:\r?\n|$))/;
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface EditContext {
+  source: string;
+  edits: TextEdit[];
+  options: ToStringOptions;
+}
+
+type ParsedPair = Pair<ParsedNode | null, ParsedNode | null>;
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPrimitive = (value: unknown) =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// Column of a position in the source
+const columnOf = (source: string, position: number) =>
+  position - (source.lastIndexOf('\n', position - 1) + 1);
+
+// End of a node's range without the trailing whitespace and line breaks it may include
+const contentEnd = (source: string, end: number) => {
+  let position = end;
+  while (position > 0 && /\s/.test(source[position - 1])) {
+    position--;
+  }
+  return position;
+};
+
+// Indent every line after the first, for text placed at the given column
+const reindent = (text: string, column: number) =>
+  text
+    .split('\n')
+    .map((line, index) => (index === 0 || line === '' ? line : ' '.repeat(column) + line))
+    .join('\n');
+
+/**
+ * Copy the presentation of an existing node to a new one: quote style of strings, flow or block collections
+ */
+const applyStyle = (node: Node, template: ParsedNode | null | undefined) => {
+  if (!template) return;
+
+  if (isScalar(node) && isScalar(template)) {
+    // Quoted and plain styles make multi-line text hard to read, so those get the default block style
+    const multiline = typeof node.value === 'string' && node.value.includes('\n');
+    const blockStyle = template.type === 'BLOCK_LITERAL' || template.type === 'BLOCK_FOLDED';
+    if (typeof node.value === 'string' && typeof template.value === 'string' && (!multiline || blockStyle)) {
+      node.type = template.type;
+    }
+    return;
+  }
+
+  if (isSeq(node) && isSeq(template)) {
+    node.flow = template.flow;
+    node.items.forEach((item, index) => {
+      applyStyle(item as Node, (template.items[index] ?? template.items[template.items.length - 1]) as ParsedNode);
+    });
+    return;
+  }
+
+  if (isMap(node) && isMap(template)) {
+    node.flow = template.flow;
+    node.items.forEach(pair => {
+      const match = template.items.find(item => isScalar(item.key) && isScalar(pair.key) && item.key.value === pair.key.value);
+      if (match) {
+        applyStyle(pair.value as Node, match.value as ParsedNode | null);
+      }
+    });
+  }
+};
+
+/**
+ * Stringify a value as YAML, styled like the node it replaces
+ * The value is written as a sequence item so that continuation lines (block scalars, nested keys) are indented by two spaces
+ */
+const stringifyValue = (ctx: EditContext, value: unknown, template?: ParsedNode | null) => {
+  const document = new Document([value]);
+  applyStyle((document.contents as YAMLSeq).items[0] as Node, template);
+  return document.toString(ctx.options).replace(/^- /, '').replace(/\n+$/, '');
+};
+
+// Stringify a key with its value, styled like the pair in the map it replaces
+const stringifyPair = (ctx: EditContext, key: string, value: unknown, template?: YAMLMap.Parsed) => {
+  const document = new Document({ [key]: value });
+  applyStyle(document.contents as Node, template);
+  return document.toString(ctx.options).replace(/\n+$/, '');
+};
+
+/**
+ * Remove the lines holding a node
+ * A map entry that shares its line with a sequence dash ("- key: value") is removed on its own, unless wholeLines is set
+ */
+const removeNode = (ctx: EditContext, start: number, end: number, wholeLines = false) => {
+  const { source } = ctx;
+  const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = source.indexOf('\n', contentEnd(source, end));
+  const nextLine = lineEnd === -1 ? source.length : lineEnd + 1;
+
+  if (wholeLines || source.slice(lineStart, start).trim() === '') {
+    ctx.edits.push({ start: lineStart, end: nextLine, text: '' });
+  } else {
+    // Pull the following line up in place of the node, keeping its indentation out
+    const nextContent = nextLine + (source.slice(nextLine).match(/^ */)?.[0].length ?? 0);
+    ctx.edits.push({ start, end: nextContent, text: '' });
+  }
+};
+
+// Whether a node can be edited where it is, or has to be replaced together with its key
+const canUpdateInPlace = (node: ParsedNode, value: unknown) => {
+  if (isScalar(node)) return isPrimitive(value);
+  if (isCollection(node) && node.flow) {
+    return isSeq(node) ? Array.isArray(value) : isPlainObject(value);
+  }
+  if (isSeq(node)) return Array.isArray(value) && value.length > 0;
+  if (isMap(node)) return isPlainObject(value) && Object.keys(value).length > 0;
+  return false;
+};
+
+/**
+ * Edit a node in place; continuation lines of the new value are indented by column plus two spaces
+ */
+const updateNode = (ctx: EditContext, node: ParsedNode, oldValue: unknown, value: unknown, column: number) => {
+  if (isSame(oldValue, value)) return;
+
+  if (isScalar(node) || (isCollection(node) && node.flow)) {
+    // An empty value ("heroImage:" or "-") starts right after the indicator, which needs a space after it
+    const start = node.range[0];
+    const separator = start > 0 && !/\s/.test(ctx.source[start - 1]) ? ' ' : '';
+    ctx.edits.push({
+      start,
+      end: contentEnd(ctx.source, node.range[1]),
+      text: separator + reindent(stringifyValue(ctx, value, node), column),
+    });
+  } else if (isMap(node)) {
+    updateMap(ctx, node as YAMLMap.Parsed, isPlainObject(oldValue) ? oldValue : {}, value as Record<string, unknown>);
+  } else if (isSeq(node)) {
+    updateSeq(ctx, node as YAMLSeq.Parsed, Array.isArray(oldValue) ? oldValue : [], value as unknown[]);
+  }
+};
+
+const updateMap = (
+  ctx: EditContext,
+  map: YAMLMap.Parsed,
+  oldValue: Record<string, unknown>,
+  value: Record<string, unknown>
+) => {
+  const { source } = ctx;
+  const seen = new Set<string>();
+  const pairs = map.items as ParsedPair[];
+
+  pairs.forEach(pair => {
+    // Complex keys are left alone
+    if (!isScalar(pair.key)) return;
+
+    const key = String(pair.key.value);
+    const keyStart = pair.key.range[0];
+    const pairEnd = (pair.value ?? pair.key).range[1];
+    seen.add(key);
+
+    if (value[key] === undefined) {
+      removeNode(ctx, keyStart, pairEnd);
+      return;
+    }
+    if (isSame(oldValue[key], value[key])) return;
+
+    const column = columnOf(source, keyStart);
+    if (pair.value && canUpdateInPlace(pair.value, value[key])) {
+      updateNode(ctx, pair.value, oldValue[key], value[key], column);
+      return;
+    }
+
+    // Block collections start on the next line, so the key is written again with the new value
+    ctx.edits.push({
+      start: keyStart,
+      end: contentEnd(source, pairEnd),
+      text: reindent(stringifyPair(ctx, key, value[key], map), column),
+    });
+  });
+
+  const added = Object.entries(value).filter(([key, item]) => !seen.has(key) && item !== undefined);
+  const last = pairs[pairs.length - 1];
+  if (added.length === 0 || !last?.key) return;
+
+  // New keys go after the existing ones, at the same indentation
+  const column = columnOf(source, last.key.range[0]);
+  const position = contentEnd(source, (last.value ?? last.key).range[1]);
+  ctx.edits.push({
+    start: position,
+    end: position,
+    text: added
+      .map(([key, item]) => '\n' + ' '.repeat(column) + reindent(stringifyPair(ctx, key, item), column))
+      .join(''),
+  });
+};
+
+const updateSeq = (
+  ctx: EditContext,
+  seq: YAMLSeq.Parsed,
+  oldValue: unknown[],
+  value: unknown[]
+) => {
+  const { source } = ctx;
+  const items = seq.items as ParsedNode[];
+
+  items.forEach((item, index) => {
+    if (index >= value.length) {
+      removeNode(ctx, item.range[0], item.range[1], true);
+      return;
+    }
+    if (isSame(oldValue[index], value[index])) return;
+
+    // Continuation lines of an item line up with its first line, two columns after the dash
+    const column = columnOf(source, item.range[0]) - 2;
+    if (canUpdateInPlace(item, value[index])) {
+      updateNode(ctx, item, oldValue[index], value[index], column);
+    } else {
+      ctx.edits.push({
+        start: item.range[0],
+        end: contentEnd(source, item.range[1]),
+        text: reindent(stringifyValue(ctx, value[index], item), column),
+      });
+    }
+  });
+
+  const last = items[items.length - 1];
+  if (value.length <= items.length || !last) return;
+
+  // New items are styled like the last existing one
+  const itemColumn = columnOf(source, last.range[0]);
+  const dashColumn = source.lastIndexOf('-', last.range[0]) - (source.lastIndexOf('\n', last.range[0] - 1) + 1);
+  const position = contentEnd(source, last.range[1]);
+  ctx.edits.push({
+    start: position,
+    end: position,
+    text: value
+      .slice(items.length)
+      .map(item => '\n' + ' '.repeat(dashColumn) + '-' + ' '.repeat(itemColumn - dashColumn - 1) + reindent(stringifyValue(ctx, item, last), itemColumn - 2))
+      .join(''),
+  });
+};
+
+// Whether block sequences in the source are indented under their key ("key:\n  - a") or not ("key:\n- a")
+const usesIndentedSequences = (source: string, map: YAMLMap.Parsed) => {
+  for (const pair of map.items as ParsedPair[]) {
+    if (pair.key && isSeq(pair.value) && !pair.value.flow && pair.value.items.length > 0) {
+      const firstItem = pair.value.items[0] as ParsedNode;
+      const dash = source.lastIndexOf('-', firstItem.range[0]);
+      return columnOf(source, dash) > columnOf(source, pair.key.range[0]);
+    }
+  }
+  return true;
+};
+
+/**
+ * Apply changed frontmatter values to YAML source
+ * Only the keys whose values changed are rewritten; everything else is kept byte for byte
+ */
+export const updateYamlSource = (
+  source: string,
+  oldValues: Record<string, unknown>,
+  values: Record<string, unknown>
+): string => {
+  const document = parseDocument(source);
+  const options: ToStringOptions = { lineWidth: 0, flowCollectionPadding: false };
+
+  // Nothing worth preserving (empty or unusual frontmatter), so write it from scratch
+  if (document.errors.length > 0 || !isMap(document.contents) || document.contents.flow || document.contents.items.length === 0) {
+    const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? new Document(Object.fromEntries(entries)).toString(options) : '';
+  }
+
+  const map = document.contents as YAMLMap.Parsed;
+  const ctx: EditContext = {
+    source,
+    edits: [],
+    options: { ...options, indentSeq: usesIndentedSequences(source, map) },
+  };
+  updateMap(ctx, map, oldValues, values);
+
+  // Apply from the end so earlier positions stay valid; insertions at the same position keep the order they were made in
+  const updated = ctx.edits
+    .map((edit, order) => ({ ...edit, order }))
+    .sort((a, b) => b.start - a.start || b.order - a.order)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), source);
+
+  return updated.endsWith('\n') ? updated : updated + '\n';
+};
+
+/**
+ * Rewrite the frontmatter block of an MDX file with new values, keeping comments, key order and quoting
+ * Values are compared with what gray-matter reads from the file, so unchanged keys are never touched
+ * Returns null when the file has no frontmatter block
+ */
+export const updateFrontmatterBlock = (
+  fileContent: string,
+  frontmatter: Record<string, unknown>
+): string | null => {
+  const match = fileContent.match(FRONTMATTER_BLOCK);
+  if (!match) return null;
+
+  const [, open, body = '', close] = match;
+  const lineEnding = open.endsWith('\r\n') ? '\r\n' : '\n';
+
+  // Compare as JSON, the way the values reached the editor (dates become ISO strings)
+  // Options are passed so gray-matter parses afresh instead of returning its cached (possibly mutated) result
+  const oldValues = JSON.parse(JSON.stringify(matter(fileContent, {}).data));
+  const yaml = updateYamlSource(body.replace(/\r\n/g, '\n'), oldValues, frontmatter);
+
+  return open + yaml.replace(/\n/g, lineEnding) + (close.endsWith('\n') ? close : close + lineEnding);
+};
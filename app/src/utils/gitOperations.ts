@@ -1,9 +1,41 @@
-import { simpleGit, StatusResult } from 'simple-git';
+import { SimpleGit, SimpleGitOptions, simpleGit, StatusResult } from 'simple-git';
 import fs from 'fs-extra';
 import path from 'path';
-import { Repository } from '@/types';
+import {
+  BranchInfo,
+  ChangedFile,
+  CloneOptions,
+  ConflictVersions,
+  FileDiff,
+  GitCredential,
+  GitProgress,
+  PullOutcome,
+  PostCommit,
+  PostHistory,
+  PullResult,
+  PushFailureReason,
+  Repository,
+  SyncStatus,
+} from '@/types';
+import { getPostSlugFromPath, isPostFile } from '@/utils/slugUtils';
+import { withGitCredentials } from '@/utils/credentials';
+import { REPOS_DIR } from '@/utils/dataDir';
 
-const REPOS_DIR = path.join(process.cwd(), 'repositories');
+// Commits fetched by a shallow clone when no depth is given
+const DEFAULT_CLONE_DEPTH = 50;
+
+// Run git commands that reach the remote, authenticated with the repository's stored credential if it has one
+// The credential is looked up by the repository's folder name unless one is given; options can point baseDir elsewhere, e.g. for a clone
+const withRemoteGit = <T>(
+  repoPath: string,
+  run: (git: SimpleGit) => Promise<T>,
+  options: Partial<SimpleGitOptions> = {},
+  credential?: GitCredential
+): Promise<T> =>
+  withGitCredentials(path.basename(repoPath), env => {
+    const git = simpleGit({ baseDir: repoPath, ...options });
+    return run(env ? git.env(env) : git);
+  }, credential);
 
 // Initialize repositories directory if it doesn't exist
 export const initRepoDirectory = async (): Promise<void> => {
@@ -40,6 +72,7 @@ export const getClonedRepositories = async (): Promise<Repository[]> => {
             url: remotes[0].refs.fetch,
             isCloned: true,
             isCurrent: false,
+            isShallow: (await getShallowBoundaries(repoPath)).length > 0,
           });
         }
       }
@@ -52,10 +85,32 @@ export const getClonedRepositories = async (): Promise<Repository[]> => {
   }
 };
 
-// Clone a repository
+// Extra git clone arguments for a clone mode
+export const getCloneArgs = (options: CloneOptions): string[] => {
+  switch (options.mode) {
+    case 'shallow':
+      return ['--depth', String(options.depth || DEFAULT_CLONE_DEPTH)];
+    case 'blobless':
+      return ['--filter=blob:none'];
+    default:
+      return [];
+  }
+};
+
+// Commits of a shallow clone whose parents haven't been fetched, listed in .git/shallow
+const getShallowBoundaries = async (repoPath: string): Promise<string[]> => {
+  const shallowFile = path.join(repoPath, '.git', 'shallow');
+  return await fs.pathExists(shallowFile)
+    ? (await fs.readFile(shallowFile, 'utf8')).split('\n').filter(Boolean)
+    : [];
+};
+
+// Clone a repository, with the given credential instead of a stored one if there is one
 export const cloneRepository = async (
   repoUrl: string,
-  repoName: string
+  repoName: string,
+  options: CloneOptions = { mode: 'full' },
+  credential?: GitCredential
 ): Promise<Repository | null> => {
   try {
     await initRepoDirectory();
@@ -66,11 +121,8 @@ export const cloneRepository = async (
       throw new Error(`Repository path ${repoPath} already exists`);
     }
     
-    const git = simpleGit();
-    
-    // Clone the repository with SSH and depth=1 for shallow clone
-    await git.clone(repoUrl, repoPath, ['--depth', '1']);
-    console.log(`Repository ${repoName} cloned successfully with depth=1`);
+    await withRemoteGit(repoPath, git => git.clone(repoUrl, repoPath, getCloneArgs(options)), { baseDir: REPOS_DIR }, credential);
+    console.log(`Repository ${repoName} cloned successfully (${options.mode})`);
     
     return {
       name: repoName,
@@ -78,6 +130,8 @@ export const cloneRepository = async (
       url: repoUrl,
       isCloned: true,
       isCurrent: false,
+      // A repository with fewer commits than the depth is cloned in full
+      isShallow: (await getShallowBoundaries(repoPath)).length > 0,
     };
   } catch (error) {
     console.error(`Failed to clone repository ${repoName}:`, error);
@@ -85,30 +139,116 @@ export const cloneRepository = async (
   }
 };
 
-// Pull latest changes from a repository
-export const pullRepository = async (repoPath: string): Promise<boolean> => {
+// Files git lists after "... would be overwritten by merge:" when local changes block a pull
+const getBlockingFiles = (output: string): string[] => {
+  const files: string[] = [];
+  let listing = false;
+  output.split('\n').forEach(line => {
+    if (/would be overwritten by merge/.test(line)) {
+      listing = true;
+    } else if (listing && /^\s+\S/.test(line)) {
+      files.push(line.trim());
+    } else {
+      listing = false;
+    }
+  });
+  return files;
+};
+
+const getConflictedResult = (conflictedFiles: string[]): PullResult => ({
+  outcome: 'conflicted',
+  conflictedFiles,
+  conflictedPosts: Array.from(new Set(conflictedFiles.map(getPostSlugFromPath).filter((slug): slug is string => slug !== null))),
+  blockingFiles: [],
+});
+
+// Check whether a merge is waiting for its conflicts to be resolved
+export const isMerging = async (repoPath: string): Promise<boolean> => {
+  return fs.pathExists(path.join(repoPath, '.git', 'MERGE_HEAD'));
+};
+
+// Pull latest changes from a repository, merging them with local commits
+// Conflicts leave the merge unfinished so they can be resolved (see resolveConflict and finishMerge)
+export const pullRepository = async (repoPath: string): Promise<PullResult> => {
+  const git = simpleGit(repoPath);
+  
+  // A merge left unfinished by an earlier pull has to be resolved before pulling again
+  if (await isMerging(repoPath)) {
+    const status = await git.status();
+    return getConflictedResult(status.conflicted);
+  }
+  
+  const headBefore = (await git.revparse(['HEAD'])).trim();
+  
   try {
-    const git = simpleGit(repoPath);
-    
-    // Pull the latest changes
-    const pullResult = await git.pull();
+    // Always merge, whatever pull.rebase or pull.ff say in the user's git config
+    const pullResult = await withRemoteGit(repoPath, remoteGit => remoteGit.pull(['--no-rebase', '--ff']));
     console.log(`Repository at ${repoPath} pulled successfully:`, pullResult);
-    
-    return true;
   } catch (error) {
+    const status = await git.status();
+    if (status.conflicted.length > 0) {
+      console.warn(`Pull left conflicts in repository at ${repoPath}:`, status.conflicted);
+      return getConflictedResult(status.conflicted);
+    }
+    
+    const blockingFiles = getBlockingFiles((error as Error).message || '');
+    if (blockingFiles.length > 0) {
+      return { outcome: 'blocked', conflictedFiles: [], conflictedPosts: [], blockingFiles };
+    }
+    
     console.error(`Failed to pull repository at ${repoPath}:`, error);
-    return false;
+    throw error;
   }
+  
+  // Depending on the git version a conflicted merge may not fail the pull itself
+  if (await isMerging(repoPath)) {
+    const status = await git.status();
+    console.warn(`Pull left conflicts in repository at ${repoPath}:`, status.conflicted);
+    return getConflictedResult(status.conflicted);
+  }
+  
+  const headAfter = (await git.revparse(['HEAD'])).trim();
+  const upstream = (await git.revparse(['@{upstream}'])).trim();
+  
+  // A fast-forward moves HEAD onto the upstream commit; a merge creates a new commit on top of both
+  let outcome: PullOutcome = 'merged';
+  if (headAfter === headBefore) {
+    outcome = 'up-to-date';
+  } else if (headAfter === upstream) {
+    outcome = 'fast-forward';
+  }
+  
+  return { outcome, conflictedFiles: [], conflictedPosts: [], blockingFiles: [] };
 };
 
-// Commit changes to a repository
+// Commit changes to a repository, optionally only the given files (paths relative to the repository root)
 export const commitChanges = async (
   repoPath: string,
-  message: string
-): Promise<boolean> => {
+  message: string,
+  files?: string[]
+): Promise<{ success: boolean; error?: string }> => {
   try {
     const git = simpleGit(repoPath);
     
+    if (files) {
+      if (files.length === 0) {
+        console.log('No files selected to commit');
+        return { success: true };
+      }
+      
+      // Stage the selected files that have unstaged changes (including deletions), then commit only those
+      // Paths that are already fully staged, like the old path of a rename, would make git add fail
+      const status = await git.status(['--untracked-files=all']);
+      const unstaged = files.filter(file => status.files.some(entry => entry.path === file && entry.working_dir !== ' '));
+      if (unstaged.length > 0) {
+        await git.add(['-A', '--', ...unstaged]);
+      }
+      const commitResult = await git.commit(message, files);
+      console.log(`Selected changes committed to ${repoPath}:`, commitResult);
+      
+      return { success: true };
+    }
+    
     // Add all changes
     await git.add('.');
     
@@ -117,54 +257,102 @@ export const commitChanges = async (
     
     if (!status.staged.length && !status.created.length && !status.deleted.length) {
       console.log('No changes to commit');
-      return true;
+      return { success: true };
     }
     
     // Commit the changes
     const commitResult = await git.commit(message);
     console.log(`Changes committed to ${repoPath}:`, commitResult);
     
-    return true;
+    return { success: true };
   } catch (error) {
     console.error(`Failed to commit changes to repository at ${repoPath}:`, error);
-    return false;
+    return { success: false, error: (error as Error).message || 'Failed to commit changes' };
+  }
+};
+
+// Messages for the push failures git reports in a recognisable way
+const PUSH_FAILURE_MESSAGES: Record<Exclude<PushFailureReason, 'unknown'>, string> = {
+  'non-fast-forward': 'The remote branch has commits that are not in your local branch. Pull the latest changes, then push again.',
+  auth: 'The remote rejected the credentials. Check that the SSH key or access token has write access to the repository.',
+  'no-upstream': 'The repository has no remote to push to.',
+  network: 'Could not reach the remote repository. Check your network connection.',
+};
+
+// Work out why a push failed from git's error output
+const getPushFailureReason = (output: string): PushFailureReason => {
+  if (/\[rejected\]|non-fast-forward|fetch first|updates were rejected/i.test(output)) {
+    return 'non-fast-forward';
+  }
+  if (/permission denied|authentication failed|could not read username|host key verification failed|access denied|returned error: 40[13]/i.test(output)) {
+    return 'auth';
   }
+  if (/has no upstream branch|no configured push destination|'origin' does not appear to be a git repository/i.test(output)) {
+    return 'no-upstream';
+  }
+  if (/could not resolve host|connection (timed out|refused)|network is unreachable|unable to access/i.test(output)) {
+    return 'network';
+  }
+  return 'unknown';
 };
 
-// Push changes to remote repository
-export const pushChanges = async (repoPath: string): Promise<boolean> => {
+// Push committed changes to the upstream branch, reporting why git refused the push
+// Pass a branch to push that branch instead of the current one; a branch without an upstream gets one on origin
+export const pushChanges = async (
+  repoPath: string,
+  branch?: string
+): Promise<{ success: boolean; error?: string; reason?: PushFailureReason }> => {
   try {
     const git = simpleGit(repoPath);
+    const branches = await git.branchLocal();
+    const branchName = branch || branches.current;
+    
+    if (!branches.all.includes(branchName)) {
+      return { success: false, reason: 'unknown', error: `Branch ${branchName} does not exist` };
+    }
+    
+    const upstream = (await git.raw(['for-each-ref', '--format=%(upstream:short)', `refs/heads/${branchName}`])).trim();
     
     // Push the changes
-    const pushResult = await git.push();
+    const pushResult = await withRemoteGit(repoPath, remoteGit => upstream
+      ? remoteGit.push('origin', branchName)
+      : remoteGit.push('origin', branchName, ['--set-upstream']));
     console.log(`Changes pushed from ${repoPath}:`, pushResult);
     
-    return true;
+    return { success: true };
   } catch (error) {
     console.error(`Failed to push changes from repository at ${repoPath}:`, error);
-    return false;
+    const output = (error as Error).message || '';
+    const reason = getPushFailureReason(output);
+    return {
+      success: false,
+      reason,
+      error: reason === 'unknown' ? output.trim() || 'Failed to push changes' : PUSH_FAILURE_MESSAGES[reason],
+    };
   }
 };
 
-// Full operation to commit and push changes
-export const commitAndPushChanges = async (
-  repoPath: string,
-  message: string
-): Promise<boolean> => {
-  try {
-    const commitSuccess = await commitChanges(repoPath, message);
-    
-    if (!commitSuccess) {
-      return false;
+// Count the commits the current branch is ahead of and behind its upstream, optionally fetching first
+export const getSyncStatus = async (repoPath: string, fetchRemote = false): Promise<SyncStatus> => {
+  const git = simpleGit(repoPath);
+  
+  if (fetchRemote) {
+    // Counts against the last fetched state are still useful when the remote can't be reached
+    try {
+      await withRemoteGit(repoPath, remoteGit => remoteGit.fetch());
+    } catch (error) {
+      console.warn(`Failed to fetch remote for repository at ${repoPath}:`, error);
     }
-    
-    const pushSuccess = await pushChanges(repoPath);
-    return pushSuccess;
-  } catch (error) {
-    console.error(`Failed to commit and push changes to repository at ${repoPath}:`, error);
-    return false;
   }
+  
+  const status = await git.status();
+  
+  return {
+    branch: status.current,
+    tracking: status.tracking,
+    ahead: status.ahead,
+    behind: status.behind,
+  };
 };
 
 // Get the status of a repository
@@ -187,3 +375,349 @@ export const getRepositoryStatus = async (
     throw error;
   }
 };
+
+// Resolve a file path inside a repository, rejecting paths that point outside it
+export const resolveRepoFile = (repoPath: string, filePath: string): string => {
+  const fullPath = path.resolve(repoPath, filePath);
+  if (!fullPath.startsWith(path.resolve(repoPath) + path.sep)) {
+    throw new Error(`Invalid file path: ${filePath}`);
+  }
+  return fullPath;
+};
+
+// List the files with uncommitted changes, including each file inside new folders
+export const getChangedFiles = async (repoPath: string): Promise<ChangedFile[]> => {
+  try {
+    const git = simpleGit(repoPath);
+    const status = await git.status(['--untracked-files=all']);
+    
+    return status.files.map(file => {
+      const code = `${file.index}${file.working_dir}`;
+      let fileStatus: ChangedFile['status'] = 'modified';
+      if (code.includes('R')) {
+        fileStatus = 'renamed';
+      } else if (code.includes('D')) {
+        fileStatus = 'deleted';
+      } else if (code.includes('?') || code.includes('A')) {
+        fileStatus = 'added';
+      }
+      
+      return {
+        path: file.path,
+        status: fileStatus,
+        ...(file.from && file.from !== file.path ? { from: file.from } : {}),
+      };
+    });
+  } catch (error) {
+    console.error(`Failed to list changed files in repository at ${repoPath}:`, error);
+    throw error;
+  }
+};
+
+// Paths of a post's uncommitted changes (its MDX file and uploads folder), ready to pass to commitChanges
+export const getPostChangedPaths = async (repoPath: string, slug: string): Promise<string[]> => {
+  const files = await getChangedFiles(repoPath);
+  
+  return files
+    .filter(file => isPostFile(file.path, slug) || (file.from && isPostFile(file.from, slug)))
+    // A rename also needs its old path so the removal is committed
+    .flatMap(file => (file.from ? [file.from, file.path] : [file.path]));
+};
+
+// Read a file as of a commit (e.g. 'HEAD') or from the working tree; null when it doesn't exist there
+export const getFileVersion = async (
+  repoPath: string,
+  filePath: string,
+  ref?: string
+): Promise<Buffer | null> => {
+  const fullPath = resolveRepoFile(repoPath, filePath);
+  
+  if (!ref) {
+    return await fs.pathExists(fullPath) ? fs.readFile(fullPath) : null;
+  }
+  
+  try {
+    const git = simpleGit(repoPath);
+    // Git wants forward slashes relative to the repository root
+    const gitPath = path.relative(repoPath, fullPath).split(path.sep).join('/');
+    return await git.showBuffer([`${ref}:${gitPath}`]);
+  } catch {
+    // Not in that commit (a new or deleted file)
+    return null;
+  }
+};
+
+// Get the last committed and current contents of a changed text file
+export const getFileDiff = async (
+  repoPath: string,
+  filePath: string,
+  fromPath?: string
+): Promise<FileDiff> => {
+  const [oldContent, newContent] = await Promise.all([
+    getFileVersion(repoPath, fromPath || filePath, 'HEAD'),
+    getFileVersion(repoPath, filePath),
+  ]);
+  
+  return {
+    path: filePath,
+    oldContent: oldContent?.toString('utf8') ?? '',
+    newContent: newContent?.toString('utf8') ?? '',
+  };
+};
+
+// List the files that still have conflicts in an unfinished merge
+export const getConflictedFiles = async (repoPath: string): Promise<string[]> => {
+  const git = simpleGit(repoPath);
+  const status = await git.status();
+  return status.conflicted;
+};
+
+// Read the common ancestor, local and upstream versions of a conflicted file from the merge stages
+export const getConflictVersions = async (repoPath: string, filePath: string): Promise<ConflictVersions> => {
+  const fullPath = resolveRepoFile(repoPath, filePath);
+  const gitPath = path.relative(repoPath, fullPath).split(path.sep).join('/');
+  const git = simpleGit(repoPath);
+  
+  // Stage 1 is the common ancestor, 2 the local branch and 3 the branch being merged in
+  const readStage = async (stage: number) => {
+    try {
+      return await git.show([`:${stage}:${gitPath}`]);
+    } catch {
+      // The file doesn't exist on that side (added or deleted there)
+      return null;
+    }
+  };
+  
+  const [base, ours, theirs] = await Promise.all([readStage(1), readStage(2), readStage(3)]);
+  return { path: filePath, base, ours, theirs };
+};
+
+// Resolve a conflicted file with new content, or by taking the local ('ours') or upstream ('theirs') version
+// Taking a side where the file was deleted deletes it
+export const resolveConflict = async (
+  repoPath: string,
+  filePath: string,
+  resolution: { content: string } | 'ours' | 'theirs'
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const fullPath = resolveRepoFile(repoPath, filePath);
+    const git = simpleGit(repoPath);
+    
+    if (typeof resolution === 'object') {
+      await fs.outputFile(fullPath, resolution.content);
+      await git.add(['--', filePath]);
+      return { success: true };
+    }
+    
+    // Unmerged index entries look like "<mode> <hash> <stage>\t<path>"
+    const stages = (await git.raw(['ls-files', '-u', '--', filePath]))
+      .split('\n')
+      .map(line => line.split('\t')[0].split(' ')[2]);
+    
+    if (stages.includes(resolution === 'ours' ? '2' : '3')) {
+      await git.raw(['checkout', `--${resolution}`, '--', filePath]);
+      await git.add(['--', filePath]);
+    } else {
+      await git.raw(['rm', '--cached', '--quiet', '--', filePath]);
+      await fs.remove(fullPath);
+    }
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to resolve conflict in ${filePath} at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to resolve conflict' };
+  }
+};
+
+// Commit an unfinished merge once every conflict is resolved
+export const finishMerge = async (repoPath: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const git = simpleGit(repoPath);
+    
+    const conflicted = await getConflictedFiles(repoPath);
+    if (conflicted.length > 0) {
+      return { success: false, error: `Resolve the conflicts in ${conflicted.join(', ')} first` };
+    }
+    
+    // Keep the merge message git prepared for the pull
+    await git.raw(['commit', '--no-edit']);
+    console.log(`Merge committed in ${repoPath}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to finish merge in repository at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to finish merge' };
+  }
+};
+
+// Abort an unfinished merge, restoring the branch to how it was before the pull
+export const abortMerge = async (repoPath: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const git = simpleGit(repoPath);
+    await git.merge(['--abort']);
+    console.log(`Merge aborted in ${repoPath}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to abort merge in repository at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to abort merge' };
+  }
+};
+
+// Check a branch name against git's rules for ref names
+export const isValidBranchName = async (repoPath: string, name: string): Promise<boolean> => {
+  try {
+    await simpleGit(repoPath).raw(['check-ref-format', '--branch', name]);
+    return !name.startsWith('-');
+  } catch {
+    return false;
+  }
+};
+
+// List the local branches and the branches on origin that have no local copy yet
+export const listBranches = async (repoPath: string): Promise<BranchInfo[]> => {
+  const git = simpleGit(repoPath);
+  const summary = await git.branch(['--all']);
+  
+  const local = Object.values(summary.branches)
+    .filter(branch => !branch.name.startsWith('remotes/'))
+    .map(branch => ({ name: branch.name, current: branch.current, remoteOnly: false }));
+  
+  const remote = summary.all
+    .filter(name => name.startsWith('remotes/origin/') && !name.endsWith('/HEAD'))
+    .map(name => name.slice('remotes/origin/'.length))
+    .filter(name => !local.some(branch => branch.name === name))
+    .map(name => ({ name, current: false, remoteOnly: true }));
+  
+  return [...local, ...remote];
+};
+
+// The branch origin's HEAD points to (usually main), which pull requests target by default
+export const getDefaultBranch = async (repoPath: string): Promise<string | null> => {
+  const git = simpleGit(repoPath);
+  
+  try {
+    const ref = (await git.raw(['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'])).trim();
+    return ref.replace(/^origin\//, '');
+  } catch {
+    // Clones made without origin/HEAD; fall back to the usual names
+    const branches = await listBranches(repoPath);
+    return ['main', 'master'].find(name => branches.some(branch => branch.name === name)) || null;
+  }
+};
+
+// Create a branch from the current commit (or startPoint) and switch to it
+// Uncommitted changes stay in the working tree and come along to the new branch
+export const createBranch = async (
+  repoPath: string,
+  name: string,
+  startPoint?: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const git = simpleGit(repoPath);
+    if (startPoint) {
+      // The start point comes from the client: it must name a commit, and can't be read as an option to git
+      const commit = startPoint.startsWith('-')
+        ? ''
+        : await git.raw(['rev-parse', '--verify', '--quiet', `${startPoint}^{commit}`]).catch(() => '');
+      if (!commit.trim()) {
+        return { success: false, error: `${startPoint} is not a branch or commit` };
+      }
+    }
+    await git.checkout(['-b', name, ...(startPoint ? [startPoint] : [])]);
+    console.log(`Created branch ${name} in ${repoPath}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to create branch ${name} in repository at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to create branch' };
+  }
+};
+
+// Switch to a branch; a branch that only exists on origin is checked out as a new tracking branch
+// Git refuses when uncommitted changes would be overwritten, and that error is returned
+export const switchBranch = async (repoPath: string, name: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    // Checking out a branch of a blobless clone downloads the files it hasn't needed before
+    await withRemoteGit(repoPath, git => git.checkout(name));
+    console.log(`Switched to branch ${name} in ${repoPath}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to switch to branch ${name} in repository at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to switch branch' };
+  }
+};
+
+// URL of the origin remote, used to find the repository on its forge
+export const getRemoteUrl = async (repoPath: string): Promise<string | null> => {
+  try {
+    const url = await simpleGit(repoPath).remote(['get-url', 'origin']);
+    return url ? url.trim() : null;
+  } catch {
+    return null;
+  }
+};
+
+// List the commits that touched a post's MDX file or uploads folder, newest first
+export const getPostHistory = async (repoPath: string, slug: string): Promise<PostHistory> => {
+  const git = simpleGit(repoPath);
+  
+  const log = await git.log(['--', `posts/${slug}.mdx`, `uploads/${slug}/`]);
+  
+  const boundaries = await getShallowBoundaries(repoPath);
+  
+  const commits: PostCommit[] = log.all.map(entry => ({
+    hash: entry.hash,
+    author: entry.author_name,
+    date: entry.date,
+    message: entry.message,
+    ...(boundaries.includes(entry.hash) ? { shallowBoundary: true } : {}),
+  }));
+  
+  return { commits, shallow: boundaries.length > 0 };
+};
+
+// Fetch older commits into a shallow clone, a number of commits further back
+export const deepenHistory = async (repoPath: string, commits: number): Promise<{ success: boolean; error?: string }> => {
+  try {
+    await withRemoteGit(repoPath, git => git.fetch(['--deepen', String(commits)]));
+    console.log(`History of ${repoPath} deepened by ${commits} commits`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to deepen history of repository at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to fetch older history' };
+  }
+};
+
+// Fetch the rest of the history into a shallow clone, reporting progress as git reads and receives objects
+export const unshallowRepository = async (
+  repoPath: string,
+  onProgress?: (progress: GitProgress) => void
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if ((await getShallowBoundaries(repoPath)).length === 0) {
+      return { success: false, error: 'The repository already has its full history' };
+    }
+    
+    // Shallow clones only track the branch they were cloned from, so widen the refspec to get the other branches too
+    await simpleGit(repoPath).addConfig('remote.origin.fetch', '+refs/heads/*:refs/remotes/origin/*');
+    
+    await withRemoteGit(repoPath, git => git.fetch(['--unshallow', 'origin']), {
+      progress: ({ stage, progress, processed, total }) => onProgress?.({
+        // simple-git names a stage by its first word, which is "remote:" while the server counts and compresses objects
+        stage: stage === 'remote:' ? 'preparing' : stage,
+        progress,
+        processed,
+        total,
+      }),
+    });
+    console.log(`Full history fetched into ${repoPath}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to fetch full history of repository at ${repoPath}:`, error);
+    return { success: false, error: (error as Error).message || 'Failed to fetch full history' };
+  }
+};
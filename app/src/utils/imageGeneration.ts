@@ -0,0 +1,63 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { ImageGenerationStatus } from '@/types';
+
+/**
+ * A service that turns a prompt into images
+ * Generation is asynchronous: submit a prompt, poll the job until its images are ready,
+ * download the ones you want, then clean the job up
+ */
+export interface ImageGenerationProvider {
+  name: string;
+  pollIntervalMs: number; // How long to wait between polls of a job
+
+  // Start generating images for a prompt
+  submit(prompt: string): Promise<{ success: boolean; jobId?: string; error?: string }>;
+
+  // Check on a job; a job with no images yet is still running
+  poll(jobId: string): Promise<{ success: boolean; status?: ImageGenerationStatus; error?: string }>;
+
+  // Download a finished image from its downloadUrl; providers that render images themselves use
+  // the name of the file it will be saved as to pick the matching format
+  fetchImage(downloadUrl: string, fileName?: string): Promise<{ success: boolean; data?: Buffer; contentType?: string; error?: string }>;
+
+  // Remove the job from the service once its images are no longer needed
+  cleanup(jobId: string): Promise<{ success: boolean; error?: string }>;
+}
+
+// Options from the provider configuration, e.g. a base URL or how long the mock takes
+export type ImageProviderOptions = Record<string, string | number | boolean>;
+
+// File a post image is stored in: uploads/<slug>/ with the file name the MDX references
+export const getPostImageFile = (repoPath: string, slug: string, imagePath: string): string =>
+  path.join(repoPath, 'uploads', slug, path.basename(imagePath));
+
+// Write image data over an image of a post, keeping its file name so the MDX references still work
+export const writePostImage = async (
+  repoPath: string,
+  slug: string,
+  oldImagePath: string,
+  data: Buffer
+): Promise<string> => {
+  const filePath = getPostImageFile(repoPath, slug, oldImagePath);
+  await fs.ensureDir(path.dirname(filePath));
+  await fs.writeFile(filePath, data);
+  return `/images/uploads/${slug}/${path.basename(filePath)}`;
+};
+
+// Download a generated image and write it over an image of a post
+export const replaceImageWithGenerated = async (
+  provider: ImageGenerationProvider,
+  downloadUrl: string,
+  repoPath: string,
+  slug: string,
+  oldImagePath: string
+): Promise<{ success: boolean; newImagePath?: string; error?: string }> => {
+  const image = await provider.fetchImage(downloadUrl, oldImagePath);
+  if (!image.success || !image.data) {
+    return { success: false, error: image.error || 'Failed to download the generated image' };
+  }
+
+  const newImagePath = await writePostImage(repoPath, slug, oldImagePath, image.data);
+  return { success: true, newImagePath };
+};
@@ -0,0 +1,440 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import path from 'path';
+import fs from 'fs-extra';
+import { ImageJob, ImageJobEvent, ImageReviewAction } from '@/types';
+import { DATA_DIR, REPOS_DIR } from '@/utils/dataDir';
+import { readMdxFile, rewriteUploadPaths } from '@/utils/mdxOperations';
+import { getImageProvider } from '@/utils/imageProviders';
+import { ImageGenerationProvider, writePostImage } from '@/utils/imageGeneration';
+import { generateImagePrompt } from '@/utils/imagePrompts';
+
+/**
+ * Queue of post images to generate with the repository's image provider
+ *
+ * Up to IMAGE_JOB_CONCURRENCY jobs (3 by default) run at once. Jobs are saved to DATA_DIR/image-jobs.json
+ * after every change, so a restarted server picks up where it left off: jobs waiting on the provider are
+ * polled again and jobs that hadn't reached the provider are submitted again
+ *
+ * Every image the provider returns for a job is kept as a candidate in DATA_DIR/image-staging, so the editor
+ * can switch to another one without generating again. A job's first candidate replaces the post image straight
+ * away, except for review jobs (from batch generation), which don't touch the post until a candidate is accepted
+ */
+
+const JOBS_FILE = path.join(DATA_DIR, 'image-jobs.json');
+const STAGING_DIR = path.join(DATA_DIR, 'image-staging');
+
+const CONCURRENCY = Math.max(1, Number(process.env.IMAGE_JOB_CONCURRENCY) || 3);
+
+// Longest time to wait for a provider to finish an image
+const MAX_GENERATION_TIME_MS = 8 * 60 * 1000;
+
+// Finished and failed jobs are forgotten after a day, along with their candidates; staged images wait for review however long it takes
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// What subscribers hear about: a job that was added or changed, or one that was removed
+type ImageJobChange = Exclude<ImageJobEvent, { type: 'snapshot' }>;
+
+interface QueueState {
+  jobs: ImageJob[];
+  loading: Promise<void> | null;
+  running: Set<string>; // Ids of the jobs being worked on
+  saving: Promise<void>;
+  events: EventEmitter;
+}
+
+// Kept on globalThis so API routes, instrumentation and hot reloads all share one queue
+const globalForQueue = globalThis as typeof globalThis & { imageJobQueue?: QueueState };
+
+const getState = (): QueueState => {
+  if (!globalForQueue.imageJobQueue) {
+    const events = new EventEmitter();
+    // One listener per open editor
+    events.setMaxListeners(0);
+    globalForQueue.imageJobQueue = {
+      jobs: [],
+      loading: null,
+      running: new Set(),
+      saving: Promise.resolve(),
+      events,
+    };
+  }
+  return globalForQueue.imageJobQueue;
+};
+
+const isActive = (job: ImageJob) => job.status === 'queued' || job.status === 'generating' || job.status === 'downloading';
+
+// Unfinished, or waiting for review; an image can only have one such job
+const isPending = (job: ImageJob) => isActive(job) || job.status === 'staged';
+
+// Where a job's candidate image is kept, with the extension of the file it would replace
+export const getCandidateFile = (job: ImageJob, index: number): string =>
+  path.join(STAGING_DIR, `${job.id}-${index}${path.extname(job.imagePath)}`);
+
+const removeCandidates = async (job: ImageJob) => {
+  for (let index = 0; index < (job.candidateCount || 0); index++) {
+    await fs.remove(getCandidateFile(job, index)).catch(error => {
+      console.warn(`Could not remove candidate ${index} of job ${job.id}:`, error);
+    });
+  }
+};
+
+const loadJobs = (): Promise<void> => {
+  const state = getState();
+  if (!state.loading) {
+    state.loading = (async () => {
+      if (!await fs.pathExists(JOBS_FILE)) {
+        return;
+      }
+      try {
+        const jobs: ImageJob[] = await fs.readJson(JOBS_FILE);
+        state.jobs = jobs.map(job => {
+          // Interrupted before the provider had the prompt: submit it again
+          if (job.status === 'generating' && !job.providerJobId) {
+            return { ...job, status: 'queued' };
+          }
+          // Interrupted while saving the images: poll the provider for them again
+          if (job.status === 'downloading') {
+            return { ...job, status: 'generating' };
+          }
+          return job;
+        });
+      } catch (error) {
+        console.error(`Could not read ${JOBS_FILE}, starting with an empty image queue:`, error);
+      }
+      await pruneJobs();
+    })();
+  }
+  return state.loading;
+};
+
+const saveJobs = (): Promise<void> => {
+  const state = getState();
+  // Writes are chained so an older snapshot can't land after a newer one
+  state.saving = state.saving
+    .then(async () => {
+      await fs.ensureDir(DATA_DIR);
+      const tempFile = `${JOBS_FILE}.tmp`;
+      await fs.writeJson(tempFile, state.jobs, { spaces: 2 });
+      await fs.move(tempFile, JOBS_FILE, { overwrite: true });
+    })
+    .catch(error => {
+      console.error('Failed to save the image queue:', error);
+    });
+  return state.saving;
+};
+
+const emit = (event: ImageJobChange) => {
+  getState().events.emit('event', event);
+};
+
+const updateJob = async (job: ImageJob, changes: Partial<ImageJob>) => {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  await saveJobs();
+  emit({ type: 'job', job: { ...job } });
+};
+
+// Forget finished jobs past the retention time, with their cached candidates
+const pruneJobs = async () => {
+  const state = getState();
+  const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+  const expired = state.jobs.filter(job => !isPending(job) && new Date(job.updatedAt).getTime() <= cutoff);
+  if (expired.length === 0) return;
+
+  state.jobs = state.jobs.filter(job => !expired.includes(job));
+  await saveJobs();
+  for (const job of expired) {
+    await removeCandidates(job);
+    emit({ type: 'removed', job: { ...job } });
+  }
+};
+
+// Poll the provider until all of the job's images are ready; at the time limit, settle for the ones that are
+const waitForImages = async (provider: ImageGenerationProvider, job: ImageJob): Promise<{ success: boolean; downloadUrls?: string[]; error?: string }> => {
+  const startedAt = new Date(job.startedAt || job.createdAt).getTime();
+
+  for (;;) {
+    const result = await provider.poll(job.providerJobId as string);
+    if (!result.success || !result.status) {
+      return { success: false, error: result.error || 'The provider could not report on the job' };
+    }
+
+    const { images } = result.status;
+    const downloadUrls = images.map(image => image.downloadUrl).filter((url): url is string => Boolean(url));
+    const timedOut = Date.now() - startedAt > MAX_GENERATION_TIME_MS;
+
+    if (downloadUrls.length > 0 && (downloadUrls.length === images.length || timedOut)) {
+      return { success: true, downloadUrls };
+    }
+
+    if (timedOut) {
+      return { success: false, error: `No image after ${MAX_GENERATION_TIME_MS / 60000} minutes` };
+    }
+    await new Promise(resolve => setTimeout(resolve, provider.pollIntervalMs));
+  }
+};
+
+const processJob = async (job: ImageJob) => {
+  let provider: ImageGenerationProvider | null = null;
+
+  try {
+    // Mark the job as started before anything else, so it can no longer be cancelled
+    if (!job.providerJobId) {
+      await updateJob(job, { status: 'generating', startedAt: new Date().toISOString() });
+    }
+
+    provider = await getImageProvider(job.repoName);
+    const repoPath = path.join(REPOS_DIR, job.repoName);
+
+    // Submit the prompt, unless the job was already waiting on the provider before a restart
+    if (!job.providerJobId) {
+      const post = await readMdxFile(path.join(repoPath, 'posts', `${job.slug}.mdx`));
+      if (!post) {
+        await updateJob(job, { status: 'failed', error: 'The post could not be read' });
+        return;
+      }
+
+      const prompt = await generateImagePrompt(post.content, job.type === 'hero', job.placeholderNumber);
+      const submitted = await provider.submit(prompt);
+      if (!submitted.success || !submitted.jobId) {
+        await updateJob(job, { status: 'failed', error: submitted.error || 'The provider did not accept the prompt' });
+        return;
+      }
+      await updateJob(job, { provider: provider.name, providerJobId: submitted.jobId });
+    }
+
+    const ready = await waitForImages(provider, job);
+    if (!ready.success || !ready.downloadUrls) {
+      await updateJob(job, { status: 'failed', error: ready.error });
+      return;
+    }
+
+    // Keep every image as a candidate; ones that fail to download are left out
+    await updateJob(job, { status: 'downloading' });
+    await fs.ensureDir(STAGING_DIR);
+    let candidateCount = 0;
+    let downloadError: string | undefined;
+    for (const downloadUrl of ready.downloadUrls) {
+      const image = await provider.fetchImage(downloadUrl, job.imagePath);
+      if (image.success && image.data) {
+        await fs.writeFile(getCandidateFile(job, candidateCount++), image.data);
+      } else {
+        downloadError = image.error;
+      }
+    }
+
+    if (candidateCount === 0) {
+      await updateJob(job, { status: 'failed', error: downloadError || 'Failed to download the generated images' });
+      return;
+    }
+
+    if (job.review) {
+      await updateJob(job, { status: 'staged', candidateCount, error: undefined });
+      return;
+    }
+
+    await writePostImage(repoPath, job.slug, job.imagePath, await fs.readFile(getCandidateFile(job, 0)));
+    await updateJob(job, { status: 'replaced', candidateCount, selectedCandidate: 0, error: undefined });
+  } catch (error) {
+    console.error(`Image job ${job.id} failed:`, error);
+    await updateJob(job, { status: 'failed', error: (error as Error).message || 'Image generation failed' });
+  } finally {
+    if (provider && job.providerJobId) {
+      const cleanup = await provider.cleanup(job.providerJobId);
+      if (!cleanup.success) {
+        console.warn(`Could not clean up ${provider.name} job ${job.providerJobId}: ${cleanup.error}`);
+      }
+    }
+  }
+};
+
+// Start jobs until the concurrency limit is reached; jobs resumed after a restart go before new ones
+const runQueue = () => {
+  const state = getState();
+
+  while (state.running.size < CONCURRENCY) {
+    const waiting = state.jobs.filter(job => !state.running.has(job.id));
+    const next = waiting.find(job => job.status === 'generating') || waiting.find(job => job.status === 'queued');
+    if (!next) break;
+
+    state.running.add(next.id);
+    processJob(next).finally(() => {
+      state.running.delete(next.id);
+      runQueue();
+    });
+  }
+};
+
+// Load the saved jobs and carry on with any that were unfinished
+export const startImageJobQueue = async (): Promise<void> => {
+  await loadJobs();
+  runQueue();
+};
+
+export const listImageJobs = async (repoName: string, slug?: string): Promise<ImageJob[]> => {
+  await startImageJobQueue();
+  await pruneJobs();
+  return getState().jobs
+    .filter(job => job.repoName === repoName && (!slug || job.slug === slug))
+    .map(job => ({ ...job }));
+};
+
+export const getImageJob = async (id: string): Promise<ImageJob | null> => {
+  await loadJobs();
+  const job = getState().jobs.find(candidate => candidate.id === id);
+  return job ? { ...job } : null;
+};
+
+// Add an image to the queue; an image can only have one unfinished or unreviewed job
+export const enqueueImageJob = async (
+  request: Pick<ImageJob, 'repoName' | 'slug' | 'imagePath' | 'type' | 'placeholderNumber' | 'review'>
+): Promise<{ success: boolean; job?: ImageJob; error?: string }> => {
+  await loadJobs();
+  const state = getState();
+
+  const existing = state.jobs.find(job =>
+    isPending(job) && job.repoName === request.repoName && job.slug === request.slug && job.imagePath === request.imagePath
+  );
+  if (existing) {
+    return {
+      success: false,
+      job: { ...existing },
+      error: existing.status === 'staged' ? 'This image has a generated image waiting for review' : 'This image is already queued for generation',
+    };
+  }
+
+  const now = new Date().toISOString();
+  const job: ImageJob = {
+    id: crypto.randomUUID(),
+    repoName: request.repoName,
+    slug: request.slug,
+    imagePath: request.imagePath,
+    type: request.type,
+    ...(request.type === 'inblog' ? { placeholderNumber: request.placeholderNumber } : {}),
+    ...(request.review ? { review: true } : {}),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  state.jobs.push(job);
+  await saveJobs();
+  const queued = { ...job };
+  emit({ type: 'job', job: queued });
+
+  runQueue();
+  return { success: true, job: queued };
+};
+
+// Cancel a queued job or clear a finished one; jobs in progress can't be removed
+export const removeImageJob = async (id: string): Promise<{ success: boolean; error?: string }> => {
+  await loadJobs();
+  const state = getState();
+
+  const job = state.jobs.find(candidate => candidate.id === id);
+  if (!job) {
+    return { success: false, error: 'Image job not found' };
+  }
+  if (job.status === 'generating' || job.status === 'downloading') {
+    return { success: false, error: 'The image is being generated; wait for it to finish' };
+  }
+
+  state.jobs = state.jobs.filter(candidate => candidate.id !== id);
+  await saveJobs();
+  await removeCandidates(job);
+  emit({ type: 'removed', job: { ...job } });
+  return { success: true };
+};
+
+/**
+ * Decide on a job's candidates:
+ * accept writes the chosen candidate over the post's file (for a staged job, or to switch a replaced image to
+ * another cached candidate), reject drops them, and regenerate drops them (or a failed attempt) and queues the job again
+ */
+export const reviewImageJob = async (
+  id: string,
+  action: ImageReviewAction,
+  candidate = 0
+): Promise<{ success: boolean; job?: ImageJob; error?: string }> => {
+  await loadJobs();
+  const state = getState();
+
+  const job = state.jobs.find(existing => existing.id === id);
+  if (!job) {
+    return { success: false, error: 'Image job not found' };
+  }
+
+  if (action === 'regenerate') {
+    if (!job.review || !['staged', 'rejected', 'failed'].includes(job.status)) {
+      return { success: false, error: 'Only reviewed or failed batch images can be generated again' };
+    }
+    await removeCandidates(job);
+    await updateJob(job, {
+      status: 'queued',
+      provider: undefined,
+      providerJobId: undefined,
+      candidateCount: undefined,
+      selectedCandidate: undefined,
+      startedAt: undefined,
+      error: undefined,
+    });
+    const queued = { ...job };
+    runQueue();
+    return { success: true, job: queued };
+  }
+
+  if (action === 'accept') {
+    if (job.status !== 'staged' && !(job.status === 'replaced' && job.candidateCount)) {
+      return { success: false, error: 'This job has no images to choose from' };
+    }
+    if (!Number.isInteger(candidate) || candidate < 0 || candidate >= (job.candidateCount || 0)) {
+      return { success: false, error: `Candidate must be between 0 and ${(job.candidateCount || 1) - 1}` };
+    }
+
+    const candidateFile = getCandidateFile(job, candidate);
+    if (!await fs.pathExists(candidateFile)) {
+      return { success: false, error: 'This candidate is no longer cached; generate the image again' };
+    }
+    await writePostImage(path.join(REPOS_DIR, job.repoName), job.slug, job.imagePath, await fs.readFile(candidateFile));
+    await updateJob(job, { status: 'replaced', selectedCandidate: candidate });
+    return { success: true, job: { ...job } };
+  }
+
+  if (job.status !== 'staged') {
+    return { success: false, error: 'This job has no images waiting for review' };
+  }
+  await removeCandidates(job);
+  await updateJob(job, { status: 'rejected', candidateCount: undefined });
+  return { success: true, job: { ...job } };
+};
+
+// Whether any of a post's images are queued or being generated; they would be written to its current uploads folder
+export const hasActiveImageJobs = async (repoName: string, slug: string): Promise<boolean> => {
+  await loadJobs();
+  return getState().jobs.some(job => isActive(job) && job.repoName === repoName && job.slug === slug);
+};
+
+// Point a renamed post's jobs at its new slug, so accepting a cached candidate writes to the moved uploads folder
+export const renameImageJobs = async (repoName: string, oldSlug: string, newSlug: string): Promise<void> => {
+  await loadJobs();
+  const state = getState();
+
+  const renamed = state.jobs.filter(job => job.repoName === repoName && job.slug === oldSlug);
+  if (renamed.length === 0) return;
+
+  const now = new Date().toISOString();
+  renamed.forEach(job => {
+    Object.assign(job, { slug: newSlug, imagePath: rewriteUploadPaths(job.imagePath, oldSlug, newSlug), updatedAt: now });
+  });
+  await saveJobs();
+  renamed.forEach(job => emit({ type: 'job', job: { ...job } }));
+};
+
+// Get every change to the queue; returns a function that stops listening
+export const subscribeToImageJobs = (listener: (event: ImageJobChange) => void): (() => void) => {
+  const { events } = getState();
+  events.on('event', listener);
+  return () => {
+    events.off('event', listener);
+  };
+};
@@ -0,0 +1,53 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+// Read the system prompt for hero or in-blog images from sys_prompt/
+const getSystemPrompt = async (isHero: boolean): Promise<string> => {
+  try {
+    const promptPath = isHero 
+      ? path.join(process.cwd(), 'sys_prompt', 'prompt.txt')
+      : path.join(process.cwd(), 'sys_prompt', 'inblogimageprompt.txt');
+    
+    const prompt = await fs.readFile(promptPath, 'utf8');
+    
+    if (!prompt) {
+      throw new Error(isHero ? 'System prompt not found' : 'In-blog image system prompt not found');
+    }
+    
+    return prompt;
+  } catch (error) {
+    console.error(`Error reading system prompt file (hero: ${isHero}):`, error);
+    return '';
+  }
+};
+
+// Build the prompt for a post image (matches the prompts ImageManager.tsx copies for manual generation)
+export const generateImagePrompt = async (content: string, isHero: boolean, placeholderIndex?: number): Promise<string> => {
+  try {
+    if (isHero) {
+      const systemPrompt = await getSystemPrompt(true);
+      if (systemPrompt) {
+        return `${systemPrompt}\n\n${content}`;
+      }
+      return content;
+    }
+
+    const systemPrompt = await getSystemPrompt(false);
+    if (systemPrompt) {
+      // Number the in-blog images like InBlogImagePrompt does
+      let inBlogImageCounter = 1;
+      const transformedContent = content.replace(
+        /!\[[^\]]*\]\(\/images\/uploads\/[^)]+\)/g,
+        () => `{INSERT IN BLOG IMAGE ${inBlogImageCounter++}}`
+      );
+      
+      // Placeholders are numbered from 1
+      const placeholderNumber = (placeholderIndex || 0) + 1;
+      return `${systemPrompt}\n\n${transformedContent}\n\nCREATE IMAGE FOR PLACEHOLDER ${placeholderNumber} NOW`;
+    }
+    return content;
+  } catch (error) {
+    console.error('Error generating prompt:', error);
+    return content;
+  }
+};
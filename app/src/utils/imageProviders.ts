@@ -0,0 +1,81 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { DATA_DIR } from '@/utils/dataDir';
+import { ImageGenerationProvider, ImageProviderOptions } from '@/utils/imageGeneration';
+import { createOaiReverseProvider } from '@/utils/oaiReverseProvider';
+import { createMockImageProvider } from '@/utils/mockImageProvider';
+
+/**
+ * Image generation provider of each repository, chosen in DATA_DIR/image-generation.json:
+ *
+ * {
+ *   "provider": "oai-reverse",
+ *   "options": { "baseUrl": "https://..." },
+ *   "repositories": {
+ *     "my-blog": { "provider": "mock", "options": { "delaySeconds": 3, "images": 2 } }
+ *   }
+ * }
+ *
+ * The top-level provider is the default for repositories without an entry. IMAGE_PROVIDER overrides it,
+ * e.g. IMAGE_PROVIDER=mock to work offline without editing the file
+ *
+ * Options can hold secrets such as a repository's authToken; they stay on the server and are never sent to the browser
+ */
+
+export const IMAGE_GENERATION_CONFIG_FILE = path.join(DATA_DIR, 'image-generation.json');
+
+const DEFAULT_PROVIDER = 'oai-reverse';
+
+const PROVIDERS: Record<string, (options: ImageProviderOptions) => ImageGenerationProvider> = {
+  'oai-reverse': createOaiReverseProvider,
+  mock: createMockImageProvider,
+};
+
+interface ProviderConfig {
+  provider: string;
+  options?: ImageProviderOptions;
+}
+
+interface ImageGenerationConfig extends Partial<ProviderConfig> {
+  repositories?: Record<string, ProviderConfig>;
+}
+
+const readConfig = async (): Promise<ImageGenerationConfig> => {
+  if (!await fs.pathExists(IMAGE_GENERATION_CONFIG_FILE)) {
+    return {};
+  }
+  try {
+    return await fs.readJson(IMAGE_GENERATION_CONFIG_FILE);
+  } catch (error) {
+    throw new Error(`${IMAGE_GENERATION_CONFIG_FILE} could not be parsed: ${(error as Error).message}`);
+  }
+};
+
+// The provider a repository uses and its options; a repository's options add to the defaults when it uses the default provider
+export const getProviderConfig = async (repoName: string): Promise<ProviderConfig> => {
+  const config = await readConfig();
+  const defaultProvider = process.env.IMAGE_PROVIDER || config.provider || DEFAULT_PROVIDER;
+  const defaultOptions = config.provider && config.provider !== defaultProvider ? {} : config.options || {};
+  const repoConfig = config.repositories?.[repoName];
+
+  if (!repoConfig) {
+    return { provider: defaultProvider, options: defaultOptions };
+  }
+  return {
+    provider: repoConfig.provider,
+    options: repoConfig.provider === defaultProvider
+      ? { ...defaultOptions, ...repoConfig.options }
+      : repoConfig.options || {},
+  };
+};
+
+// Create the provider configured for a repository
+export const getImageProvider = async (repoName: string): Promise<ImageGenerationProvider> => {
+  const { provider, options } = await getProviderConfig(repoName);
+  const create = PROVIDERS[provider];
+
+  if (!create) {
+    throw new Error(`Unknown image generation provider "${provider}" (available: ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return create(options || {});
+};
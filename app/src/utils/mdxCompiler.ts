@@ -0,0 +1,116 @@
+import { compile } from '@mdx-js/mdx';
+import remarkGfm from 'remark-gfm';
+
+// Minimal shape of the MDX syntax tree nodes we need to inspect
+interface MdxNode {
+  type: string;
+  name?: string | null;
+  children?: MdxNode[];
+}
+
+// Minimal shape of the HTML syntax tree nodes produced from the MDX
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+  position?: { start: { line: number } };
+}
+
+export interface MdxCompileError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface MdxCompileResult {
+  success: boolean;
+  compiledSource?: string;
+  components?: string[]; // Names of the JSX components used in the content
+  error?: MdxCompileError;
+}
+
+/**
+ * Remark plugin that drops import/export statements - the preview can't resolve modules,
+ * components are supplied through the preview registry instead
+ */
+const remarkRemoveImportsExports = () => (tree: MdxNode) => {
+  tree.children = (tree.children || []).filter(node => node.type !== 'mdxjsEsm');
+};
+
+/**
+ * Remark plugin that records the names of all JSX components used in the content,
+ * so the client can stub out components that are missing from the registry
+ */
+const remarkCollectComponents = () => (tree: MdxNode, file: { data: Record<string, unknown> }) => {
+  const names = new Set<string>();
+  const walk = (node: MdxNode) => {
+    if ((node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') && node.name) {
+      // Only capitalised names are components; lowercase names are plain HTML elements
+      if (/^[A-Z][\w$]*$/.test(node.name)) {
+        names.add(node.name);
+      }
+    }
+    node.children?.forEach(walk);
+  };
+  walk(tree);
+  file.data.components = Array.from(names);
+};
+
+/**
+ * Rehype plugin that tags every top-level block with the source line it starts on (data-source-line),
+ * so the split view can keep the editor and preview scroll positions in sync.
+ * Components are wrapped in a div because they don't necessarily pass unknown props to the DOM.
+ */
+const rehypeSourceLines = () => (tree: HastNode) => {
+  tree.children = (tree.children || []).map(node => {
+    const line = node.position?.start.line;
+    if (!line) return node;
+
+    if (node.type === 'element') {
+      return { ...node, properties: { ...node.properties, dataSourceLine: line } };
+    }
+    if (node.type === 'mdxJsxFlowElement') {
+      return {
+        type: 'element',
+        tagName: 'div',
+        properties: { dataSourceLine: line },
+        children: [node],
+        position: node.position,
+      };
+    }
+    return node;
+  });
+};
+
+/**
+ * Compiles MDX content into a function body that can be rendered with next-mdx-remote's MDXRemote
+ */
+export const compileMdx = async (content: string): Promise<MdxCompileResult> => {
+  try {
+    const file = await compile(content, {
+      outputFormat: 'function-body',
+      providerImportSource: '@mdx-js/react',
+      development: process.env.NODE_ENV !== 'production',
+      remarkPlugins: [remarkGfm, remarkRemoveImportsExports, remarkCollectComponents],
+      rehypePlugins: [rehypeSourceLines],
+    });
+
+    return {
+      success: true,
+      compiledSource: String(file),
+      components: (file.data.components as string[] | undefined) || [],
+    };
+  } catch (error) {
+    // MDX compile errors are VFileMessages carrying the position of the problem
+    const { reason, message, line, column } = error as { reason?: string; message?: string; line?: number; column?: number };
+    return {
+      success: false,
+      error: {
+        message: reason || message || 'Unknown MDX compile error',
+        line: line ?? undefined,
+        column: column ?? undefined,
+      },
+    };
+  }
+};
@@ -1,7 +1,23 @@
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 import matter from 'gray-matter';
-import { BlogPost, BlogPostFrontmatter, BlogImage, ImageReplaceParams } from '@/types';
+import { BlogPost, BlogPostFrontmatter, BlogImage, FrontmatterFieldError, FrontmatterSchema, ImageReplaceParams } from '@/types';
+import { getTodayIsoDate } from '@/utils/dateUtils';
+import { isValidSlug } from '@/utils/slugUtils';
+import {
+  DEFAULT_FRONTMATTER_SCHEMA,
+  FRONTMATTER_SCHEMA_FILE,
+  getSchemaDefaults,
+  parseFrontmatterSchema,
+  validateFrontmatter,
+} from '@/utils/frontmatterSchema';
+import { updateFrontmatterBlock } from '@/utils/frontmatterYaml';
+import { isImagePath } from '@/utils/fileTypes';
+
+// Defaults used when scaffolding a new post
+const DEFAULT_AUTHOR = process.env.DEFAULT_POST_AUTHOR || 'Admin';
+const DEFAULT_CATEGORY = process.env.DEFAULT_POST_CATEGORY || 'General';
 
 /**
  * Extracts all image references from MDX content
@@ -31,54 +47,68 @@ export const extractImageReferences = (content: string): BlogImage[] => {
 };
 
 /**
- * Reads and parses an MDX file
+ * Parses the text of an MDX file into a post
  */
-export const readMdxFile = async (filePath: string): Promise<BlogPost | null> => {
-  try {
-    const fileContent = await fs.readFile(filePath, 'utf-8');
-    
-    // Parse frontmatter and content using gray-matter
-    const { data, content } = matter(fileContent);
-    const frontmatter = data as BlogPostFrontmatter;
+export const parseMdxContent = (fileContent: string): BlogPost => {
+  // Parse frontmatter and content using gray-matter
+  const { data, content } = matter(fileContent);
+  const frontmatter = data as BlogPostFrontmatter;
+  
+  // Extract image references from content
+  const images = extractImageReferences(content);
+  
+  // Add hero image to images array if it exists
+  if (frontmatter.heroImage) {
+    const heroPath = frontmatter.heroImage; // e.g. /images/uploads/slug-name/hero-image.jpg
+    const heroFullPath = heroPath.replace('/images', ''); // Convert to /uploads/...
     
-    // Extract image references from content
-    const images = extractImageReferences(content);
+    // Check if the hero image is already included in the extracted images
+    const heroExists = images.some(img => img.path === heroPath);
     
-    // Add hero image to images array if it exists
-    if (frontmatter.heroImage) {
-      const heroPath = frontmatter.heroImage; // e.g. /images/uploads/slug-name/hero-image.jpg
-      const heroFullPath = heroPath.replace('/images', ''); // Convert to /uploads/...
-      
-      // Check if the hero image is already included in the extracted images
-      const heroExists = images.some(img => img.path === heroPath);
-      
-      if (!heroExists) {
-        images.push({
-          altText: `Hero image for ${frontmatter.title}`,
-          path: heroPath,
-          fullPath: heroFullPath,
-          inHero: true
-        });
-      } else {
-        // Mark the existing image as hero image
-        const heroImage = images.find(img => img.path === heroPath);
-        if (heroImage) {
-          heroImage.inHero = true;
-        }
+    if (!heroExists) {
+      images.push({
+        altText: `Hero image for ${frontmatter.title}`,
+        path: heroPath,
+        fullPath: heroFullPath,
+        inHero: true
+      });
+    } else {
+      // Mark the existing image as hero image
+      const heroImage = images.find(img => img.path === heroPath);
+      if (heroImage) {
+        heroImage.inHero = true;
       }
     }
-    
-    return {
-      frontmatter,
-      content,
-      images
-    };
+  }
+  
+  return {
+    frontmatter,
+    content,
+    images
+  };
+};
+
+/**
+ * Reads and parses an MDX file
+ */
+export const readMdxFile = async (filePath: string): Promise<BlogPost | null> => {
+  try {
+    const fileContent = await fs.readFile(filePath, 'utf-8');
+    return parseMdxContent(fileContent);
   } catch (error) {
     console.error(`Failed to read MDX file ${filePath}:`, error);
     return null;
   }
 };
 
+/**
+ * Serializes a post to MDX text, editing only the changed keys of the frontmatter in an existing version of the file
+ */
+export const stringifyBlogPost = (post: BlogPost, originalContent?: string | null): string => {
+  const frontmatterBlock = originalContent ? updateFrontmatterBlock(originalContent, post.frontmatter) : null;
+  return frontmatterBlock !== null ? frontmatterBlock + post.content : matter.stringify(post.content, post.frontmatter);
+};
+
 /**
  * Finds all MDX files in the posts directory
  */
@@ -153,154 +183,66 @@ export const getBlogPost = async (repoPath: string, slug: string): Promise<BlogP
   }
 };
 
+/**
+ * Version of a post file on disk: a hash of its raw contents, or null if the post doesn't exist
+ * Used for optimistic concurrency - a save must name the version it was based on
+ */
+export const getPostVersion = async (repoPath: string, slug: string): Promise<string | null> => {
+  const filePath = path.join(repoPath, 'posts', `${slug}.mdx`);
+  if (!await fs.pathExists(filePath)) {
+    return null;
+  }
+  const raw = await fs.readFile(filePath);
+  return crypto.createHash('sha256').update(raw).digest('hex');
+};
+
+/**
+ * Reads the frontmatter schema of a repository, falling back to the default fields when it has none
+ */
+export const readFrontmatterSchema = async (repoPath: string): Promise<FrontmatterSchema> => {
+  const schemaPath = path.join(repoPath, FRONTMATTER_SCHEMA_FILE);
+
+  if (!await fs.pathExists(schemaPath)) {
+    return DEFAULT_FRONTMATTER_SCHEMA;
+  }
+
+  try {
+    return parseFrontmatterSchema(JSON.parse(await fs.readFile(schemaPath, 'utf8')));
+  } catch (error) {
+    console.error(`Error reading ${schemaPath}:`, error);
+    return {
+      ...DEFAULT_FRONTMATTER_SCHEMA,
+      errors: [`${FRONTMATTER_SCHEMA_FILE} could not be parsed: ${(error as Error).message}`],
+    };
+  }
+};
+
 /**
  * Saves an updated blog post while preserving original frontmatter formatting
+ * The frontmatter is validated against the repository's schema first; invalid fields are reported in fieldErrors
  */
 export const saveBlogPost = async (
   repoPath: string, 
   post: BlogPost
-): Promise<{success: boolean, error?: string}> => {
+): Promise<{success: boolean, error?: string, fieldErrors?: FrontmatterFieldError[]}> => {
   try {
     const { frontmatter, content } = post;
+    
+    // The post is saved under its slug, which was checked when the post was created or renamed
+    const fieldErrors = validateFrontmatter(frontmatter, await readFrontmatterSchema(repoPath), frontmatter.slug);
+    if (fieldErrors.length > 0) {
+      return { success: false, error: 'Some metadata fields are invalid', fieldErrors };
+    }
+    
     const filePath = path.join(repoPath, 'posts', `${frontmatter.slug}.mdx`);
     
-    // First, check if the file exists to get its original content
-    const originalFilePath = path.join(repoPath, 'posts', `${frontmatter.slug}.mdx`);
-    if (await fs.pathExists(originalFilePath)) {
-      // Read the original file to preserve its formatting
-      const originalContent = await fs.readFile(originalFilePath, 'utf8');
+    if (await fs.pathExists(filePath)) {
+      // Edit only the changed keys in the original frontmatter so comments, key order and quoting survive
+      const originalContent = await fs.readFile(filePath, 'utf8');
+      const newFrontmatter = updateFrontmatterBlock(originalContent, frontmatter);
       
-      // Find the frontmatter section
-      const frontmatterMatch = originalContent.match(/^---(\r?\n|.)*?---/m);
-      if (frontmatterMatch) {
-        // Parse the original frontmatter to understand its structure
-        const originalMatter = matter(originalContent);
-        const originalFormat = frontmatterMatch[0];
-        
-        // Create a new version of the frontmatter with the same formatting style as the original
-        let newFrontmatter = '---\n';
-        
-        // Process each frontmatter field
-        for (const [key, value] of Object.entries(frontmatter)) {
-          // Special handling for date - check if the original had quotes
-          if (key === 'date') {
-            if (originalFormat.includes(`date: "${originalMatter.data.date}"`)) {
-              // Original had double quotes
-              newFrontmatter += `date: "${value}"\n`;
-            } else if (originalFormat.includes(`date: '${originalMatter.data.date}'`)) {
-              // Original had single quotes
-              newFrontmatter += `date: '${value}'\n`;
-            } else {
-              // No quotes
-              newFrontmatter += `date: ${value}\n`;
-            }
-            continue;
-          }
-          
-          // Special handling for quiz array
-          if (key === 'quiz' && Array.isArray(value)) {
-            // Check if the original quiz format used inline arrays
-            const inlineQuizRegex = /options: \[[^\]]+\]/;
-            const usesInlineArrays = inlineQuizRegex.test(originalFormat);
-            
-            newFrontmatter += 'quiz:\n';
-            
-            for (const quizItem of value) {
-              // Handle 'q' key with its original quote style
-              if (originalFormat.includes(`q: "${quizItem.q}"`)) {
-                newFrontmatter += `  - q: "${quizItem.q}"\n`;
-              } else if (originalFormat.includes(`q: '${quizItem.q}'`)) {
-                newFrontmatter += `  - q: '${quizItem.q}'\n`;
-              } else {
-                newFrontmatter += `  - q: ${quizItem.q}\n`;
-              }
-              
-              // Handle options array
-              if (quizItem.options && Array.isArray(quizItem.options)) {
-                if (usesInlineArrays) {
-                  // Format as inline array with original quote style
-                  const formattedOptions = quizItem.options.map((opt: string) => {
-                    if (originalFormat.includes(`"${opt}"`)) {
-                      return `"${opt}"`;
-                    } else if (originalFormat.includes(`'${opt}'`)) {
-                      return `'${opt}'`;
-                    } else {
-                      return `"${opt}"`; // Default to double quotes
-                    }
-                  }).join(', ');
-                  
-                  newFrontmatter += `    options: [${formattedOptions}]\n`;
-                } else {
-                  // Format as multi-line
-                  newFrontmatter += '    options:\n';
-                  for (const option of quizItem.options) {
-                    newFrontmatter += '      - ' + JSON.stringify(option).replace(/^"(.*)"$/, '$1') + '\n';
-                  }
-                }
-              }
-              
-              // Handle answer
-              if (quizItem.answer !== undefined) {
-                newFrontmatter += '    answer: ' + quizItem.answer + '\n';
-              }
-            }
-            continue;
-          }
-          
-          // Special handling for tags array
-          if (key === 'tags' && Array.isArray(value)) {
-            newFrontmatter += 'tags:\n';
-            for (const tag of value) {
-              // Check if the original had quotes for tags
-              const tagWithDoubleQuotes = originalFormat.includes(`  - "${tag}"`);
-              const tagWithSingleQuotes = originalFormat.includes(`  - '${tag}'`);
-              
-              if (tagWithDoubleQuotes) {
-                newFrontmatter += `  - "${tag}"\n`;
-              } else if (tagWithSingleQuotes) {
-                newFrontmatter += `  - '${tag}'\n`;
-              } else {
-                newFrontmatter += `  - ${tag}\n`;
-              }
-            }
-            continue;
-          }
-          
-          // Handle regular string values
-          if (typeof value === 'string') {
-            // Check if the original had quotes for this field
-            const doubleQuoteRegex = new RegExp(`${key}: "([^"]*)"`); 
-            const singleQuoteRegex = new RegExp(`${key}: '([^']*)'`);
-            
-            if (doubleQuoteRegex.test(originalFormat)) {
-              // Original had double quotes
-              newFrontmatter += `${key}: "${value}"\n`;
-            } else if (singleQuoteRegex.test(originalFormat)) {
-              // Original had single quotes
-              newFrontmatter += `${key}: '${value}'\n`;
-            } else {
-              // No quotes or multi-line format
-              if (value.includes('\n')) {
-                // Multi-line string
-                newFrontmatter += `${key}: >-\n  ${value.replace(/\n/g, '\n  ')}\n`;
-              } else {
-                newFrontmatter += `${key}: ${value}\n`;
-              }
-            }
-            continue;
-          }
-          
-          // Default handling for other types
-          newFrontmatter += `${key}: ${JSON.stringify(value)}\n`;
-        }
-        
-        newFrontmatter += '---\n';
-        
-        // Create a new file content with the updated frontmatter AND the updated content
-        const newFileContent = newFrontmatter + content;
-        
-        // Write the file with updated frontmatter but preserved formatting
-        await fs.writeFile(filePath, newFileContent);
+      if (newFrontmatter !== null) {
+        await fs.writeFile(filePath, newFrontmatter + content);
         console.log(`Blog post saved to ${filePath} with preserved formatting`);
       } else {
         // Frontmatter section not found, treat as a new file
@@ -322,6 +264,168 @@ export const saveBlogPost = async (
   }
 };
 
+/**
+ * Creates a new blog post scaffold: posts/<slug>.mdx with complete frontmatter and an empty uploads/<slug>/ folder
+ */
+export const createBlogPost = async (
+  repoPath: string,
+  slug: string,
+  fields: Partial<Pick<BlogPostFrontmatter, 'title' | 'author' | 'category' | 'excerpt'>> = {}
+): Promise<{success: boolean, post?: BlogPost, error?: string, exists?: boolean}> => {
+  try {
+    if (!isValidSlug(slug)) {
+      return { success: false, error: `Invalid slug "${slug}": use lowercase letters, numbers and hyphens only` };
+    }
+
+    const filePath = path.join(repoPath, 'posts', `${slug}.mdx`);
+
+    // Slugs must be unique - never overwrite an existing post
+    if (await fs.pathExists(filePath)) {
+      return { success: false, exists: true, error: `A post with slug "${slug}" already exists` };
+    }
+
+    // Schema defaults first, so repository-specific fields like draft: true are set on new posts
+    const schemaDefaults = getSchemaDefaults(await readFrontmatterSchema(repoPath));
+    const frontmatter: BlogPostFrontmatter = {
+      ...schemaDefaults,
+      title: fields.title?.trim() || slug,
+      slug,
+      date: getTodayIsoDate(),
+      excerpt: fields.excerpt?.trim() || '',
+      tags: (schemaDefaults.tags as string[] | undefined) || [],
+      category: fields.category?.trim() || (schemaDefaults.category as string | undefined) || DEFAULT_CATEGORY,
+      author: fields.author?.trim() || (schemaDefaults.author as string | undefined) || DEFAULT_AUTHOR,
+      featured: (schemaDefaults.featured as boolean | undefined) ?? false,
+      heroImage: '',
+    };
+    const content = `\n# ${frontmatter.title}\n\nStart writing your post here.\n`;
+
+    await fs.ensureDir(path.join(repoPath, 'posts'));
+    await fs.ensureDir(path.join(repoPath, 'uploads', slug));
+
+    // 'wx' fails if the file appeared since the existence check above
+    await fs.writeFile(filePath, matter.stringify(content, frontmatter), { flag: 'wx' });
+    console.log(`New blog post scaffolded at ${filePath}`);
+
+    return {
+      success: true,
+      post: { frontmatter, content, images: [] }
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return { success: false, exists: true, error: `A post with slug "${slug}" already exists` };
+    }
+    console.error(`Failed to create blog post ${slug}:`, error);
+    return { success: false, error: (error as Error).message || 'Unknown error creating blog post' };
+  }
+};
+
+/**
+ * Rewrites every /images/uploads/<oldSlug>/ reference in a string to point at /images/uploads/<newSlug>/
+ */
+export const rewriteUploadPaths = (text: string, oldSlug: string, newSlug: string): string => {
+  return text.split(`/images/uploads/${oldSlug}/`).join(`/images/uploads/${newSlug}/`);
+};
+
+// Recursively apply rewriteUploadPaths to every string value in the frontmatter (heroImage, quiz, custom fields...)
+const rewriteFrontmatterUploadPaths = <T>(value: T, oldSlug: string, newSlug: string): T => {
+  if (typeof value === 'string') {
+    return rewriteUploadPaths(value, oldSlug, newSlug) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => rewriteFrontmatterUploadPaths(item, oldSlug, newSlug)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = rewriteFrontmatterUploadPaths(entry, oldSlug, newSlug);
+    }
+    return result as T;
+  }
+  return value;
+};
+
+/**
+ * Renames a blog post: moves posts/<oldSlug>.mdx and uploads/<oldSlug>/ to the new slug
+ * and rewrites all image references in the content and frontmatter.
+ * If a post is given (e.g. with unsaved editor changes) it is written instead of the file on disk.
+ */
+export const renameBlogPost = async (
+  repoPath: string,
+  oldSlug: string,
+  newSlug: string,
+  post?: BlogPost
+): Promise<{success: boolean, post?: BlogPost, error?: string, exists?: boolean, fieldErrors?: FrontmatterFieldError[]}> => {
+  if (!isValidSlug(newSlug)) {
+    return { success: false, error: `Invalid slug "${newSlug}": use lowercase letters, numbers and hyphens only` };
+  }
+  if (oldSlug === newSlug) {
+    return { success: false, error: 'The new slug is the same as the current slug' };
+  }
+
+  const oldFilePath = path.join(repoPath, 'posts', `${oldSlug}.mdx`);
+  const newFilePath = path.join(repoPath, 'posts', `${newSlug}.mdx`);
+  const oldUploadsDir = path.join(repoPath, 'uploads', oldSlug);
+  const newUploadsDir = path.join(repoPath, 'uploads', newSlug);
+  let uploadsMoved = false;
+
+  try {
+    const source = post || await readMdxFile(oldFilePath);
+    if (!source || !await fs.pathExists(oldFilePath)) {
+      return { success: false, error: `Post "${oldSlug}" not found` };
+    }
+
+    // Refuse to clobber another post or its images
+    if (await fs.pathExists(newFilePath) || await fs.pathExists(newUploadsDir)) {
+      return { success: false, exists: true, error: `A post with slug "${newSlug}" already exists` };
+    }
+
+    const renamedPost: BlogPost = {
+      frontmatter: {
+        ...rewriteFrontmatterUploadPaths(source.frontmatter, oldSlug, newSlug),
+        slug: newSlug,
+      },
+      content: rewriteUploadPaths(source.content, oldSlug, newSlug),
+      images: [],
+    };
+
+    // Validate before touching anything on disk
+    const fieldErrors = validateFrontmatter(renamedPost.frontmatter, await readFrontmatterSchema(repoPath));
+    if (fieldErrors.length > 0) {
+      return { success: false, error: 'Some metadata fields are invalid', fieldErrors };
+    }
+
+    // Move the images first so a failure leaves the original post untouched
+    if (await fs.pathExists(oldUploadsDir)) {
+      await fs.move(oldUploadsDir, newUploadsDir);
+      uploadsMoved = true;
+    }
+
+    // Write the new file with the original formatting, then drop the old one
+    await fs.copy(oldFilePath, newFilePath, { overwrite: false, errorOnExist: true });
+    const saveResult = await saveBlogPost(repoPath, renamedPost);
+    if (!saveResult.success) {
+      await fs.remove(newFilePath);
+      throw new Error(saveResult.error || 'Failed to write renamed post');
+    }
+    await fs.remove(oldFilePath);
+
+    console.log(`Blog post renamed: ${oldSlug} -> ${newSlug}`);
+
+    const savedPost = await readMdxFile(newFilePath);
+    return { success: true, post: savedPost || renamedPost };
+  } catch (error) {
+    console.error(`Failed to rename blog post ${oldSlug} to ${newSlug}:`, error);
+
+    // Roll back the uploads move so the old post keeps working
+    if (uploadsMoved) {
+      await fs.move(newUploadsDir, oldUploadsDir).catch(err => console.error('Failed to roll back uploads move:', err));
+    }
+
+    return { success: false, error: (error as Error).message || 'Unknown error renaming blog post' };
+  }
+};
+
 /**
  * Replace an image in a blog post
  */
@@ -384,3 +488,24 @@ export const deleteImage = async (
     return false;
   }
 };
+
+/**
+ * List the images in a post's uploads folder as MDX paths (/images/uploads/<slug>/<file>)
+ */
+export const listUploadedImages = async (repoPath: string, slug: string): Promise<string[]> => {
+  try {
+    const uploadsDir = path.join(repoPath, 'uploads', slug);
+    if (!await fs.pathExists(uploadsDir)) {
+      return [];
+    }
+
+    const files = await fs.readdir(uploadsDir);
+    return files
+      .filter(isImagePath)
+      .sort((a, b) => a.localeCompare(b))
+      .map(file => `/images/uploads/${slug}/${file}`);
+  } catch (error) {
+    console.error(`Failed to list uploaded images for ${slug}:`, error);
+    return [];
+  }
+};
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { GeneratedImage } from '@/types';
+import { ImageGenerationProvider, ImageProviderOptions } from '@/utils/imageGeneration';
+
+/**
+ * Offline stand-in for an image service that renders placeholder images locally
+ * Jobs keep no server state: the job ID carries its start time, so polling works across restarts
+ * Images are encoded as JPEG, WebP or PNG to match the file they will replace
+ *
+ * Options:
+ * - delaySeconds: How long a job takes before its images are ready (default 5)
+ * - images: Images per job (default 1)
+ * - width, height: Size of the rendered images (default 1536×1024)
+ */
+
+const MOCK_URL_PREFIX = 'mock://';
+
+// Encode a rendered image in the format of the file it will be saved as, so hero.jpg gets JPEG data
+const encodeFor = async (image: sharp.Sharp, fileName?: string): Promise<{ data: Buffer; contentType: string }> => {
+  const extension = path.extname(fileName || '').toLowerCase();
+  if (extension === '.jpg' || extension === '.jpeg') {
+    return { data: await image.jpeg().toBuffer(), contentType: 'image/jpeg' };
+  }
+  if (extension === '.webp') {
+    return { data: await image.webp().toBuffer(), contentType: 'image/webp' };
+  }
+  return { data: await image.png().toBuffer(), contentType: 'image/png' };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char] as string));
+
+export const createMockImageProvider = (options: ImageProviderOptions = {}): ImageGenerationProvider => {
+  const delayMs = Number(options.delaySeconds ?? 5) * 1000;
+  const imageCount = Math.max(1, Number(options.images ?? 1));
+  const width = Number(options.width ?? 1536);
+  const height = Number(options.height ?? 1024);
+
+  // mock-<start time>-<prompt hash>-<random>
+  const parseJobId = (jobId: string) => {
+    const match = jobId.match(/^mock-(\d+)-([0-9a-f]{8})-[0-9a-f]+$/);
+    return match ? { startedAt: Number(match[1]), promptHash: match[2] } : null;
+  };
+
+  return {
+    name: 'mock',
+    pollIntervalMs: 2 * 1000,
+
+    async submit(prompt) {
+      const promptHash = crypto.createHash('sha1').update(prompt).digest('hex').slice(0, 8);
+      return { success: true, jobId: `mock-${Date.now()}-${promptHash}-${crypto.randomBytes(4).toString('hex')}` };
+    },
+
+    async poll(jobId) {
+      const job = parseJobId(jobId);
+      if (!job) {
+        return { success: false, error: `Unknown mock job ${jobId}` };
+      }
+
+      const ready = Date.now() - job.startedAt >= delayMs;
+      const images: GeneratedImage[] = Array.from({ length: imageCount }, (_, index) => ({
+        id: `${jobId}-${index}`,
+        altText: ready ? `Mock image ${index + 1} for prompt ${job.promptHash}` : 'Image is still in progress',
+        downloadUrl: ready ? `${MOCK_URL_PREFIX}${jobId}/${index}` : null,
+        status: ready ? 'finished_successfully' : 'in_progress',
+        ...(ready ? { dimensions: { width, height } } : {}),
+      }));
+
+      return {
+        success: true,
+        status: { images, completed: ready ? imageCount : 0, inProgress: ready ? 0 : imageCount },
+      };
+    },
+
+    async fetchImage(downloadUrl, fileName) {
+      const [jobId, index] = downloadUrl.startsWith(MOCK_URL_PREFIX)
+        ? downloadUrl.slice(MOCK_URL_PREFIX.length).split('/')
+        : [];
+      const job = jobId ? parseJobId(jobId) : null;
+      if (!job) {
+        return { success: false, error: `Not a mock image URL: ${downloadUrl}` };
+      }
+
+      // A colour per image, so candidates are easy to tell apart
+      const hue = parseInt(crypto.createHash('sha1').update(`${jobId}/${index}`).digest('hex').slice(0, 4), 16) % 360;
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <rect width="100%" height="100%" fill="hsl(${hue}, 55%, 45%)"/>
+        <text x="50%" y="45%" font-family="sans-serif" font-size="${Math.round(height / 10)}" fill="white" text-anchor="middle">Mock image ${Number(index) + 1}</text>
+        <text x="50%" y="60%" font-family="monospace" font-size="${Math.round(height / 28)}" fill="white" text-anchor="middle">${escapeXml(`prompt ${job.promptHash} · ${new Date(job.startedAt).toISOString()}`)}</text>
+      </svg>`;
+
+      try {
+        const { data, contentType } = await encodeFor(sharp(Buffer.from(svg)), fileName);
+        return { success: true, data, contentType };
+      } catch (error) {
+        console.error('Error rendering mock image:', error);
+        return { success: false, error: `Failed to render mock image: ${(error as Error).message}` };
+      }
+    },
+
+    async cleanup() {
+      return { success: true };
+    },
+  };
+};
@@ -0,0 +1,171 @@
+import fs from 'fs-extra';
+import dotenv from 'dotenv';
+import { GeneratedImage, GeneratedImageStatus } from '@/types';
+import { ImageGenerationProvider, ImageProviderOptions } from '@/utils/imageGeneration';
+
+/**
+ * The conversation-based image service (send-message, conversation images, delete conversation)
+ *
+ * Options (each can also come from the server's environment instead of image-generation.json):
+ * - baseUrl: Where the service runs (OAI_REVERSE_BASE_URL), required
+ * - basicAuth: user:password for the service's basic auth (OAI_REVERSE_BASIC_AUTH), required
+ * - authToken: Token passed to the conversation endpoints, set per repository in the server's configuration
+ * - envFile: .env file holding AUTH_TOKEN, used to download images from chatgpt.com (OAI_REVERSE_ENV_FILE)
+ */
+
+// Image as listed by the service
+interface ApiImageResponse {
+  image_id?: string;
+  alt_text?: string;
+  download_url?: string | null;
+  status?: string;
+  dimensions?: { width: number; height: number };
+  size_bytes?: number;
+}
+
+const toGeneratedImage = (image: ApiImageResponse, index: number): GeneratedImage => ({
+  id: image.image_id || String(index),
+  altText: image.alt_text || (image.status === 'in_progress' ? 'Image is still in progress' : ''),
+  downloadUrl: image.download_url || null,
+  status: (['finished_successfully', 'in_progress'].includes(image.status || '') ? image.status : 'unknown') as GeneratedImageStatus,
+  dimensions: image.dimensions,
+  sizeBytes: image.size_bytes,
+});
+
+export const createOaiReverseProvider = (options: ImageProviderOptions = {}): ImageGenerationProvider => {
+  const baseUrl = String(options.baseUrl || process.env.OAI_REVERSE_BASE_URL || '').replace(/\/+$/, '');
+  const basicAuth = String(options.basicAuth || process.env.OAI_REVERSE_BASIC_AUTH || '');
+  const envFile = String(options.envFile || process.env.OAI_REVERSE_ENV_FILE || '');
+  const authToken = options.authToken ? String(options.authToken) : '';
+  const headers = {
+    Authorization: 'Basic ' + Buffer.from(basicAuth).toString('base64'),
+  };
+
+  // There are no built-in defaults: the service's address and password only come from the server's configuration
+  const missing = [!baseUrl && 'baseUrl (OAI_REVERSE_BASE_URL)', !basicAuth && 'basicAuth (OAI_REVERSE_BASIC_AUTH)'].filter(Boolean);
+  const configError = missing.length > 0
+    ? `The oai-reverse image provider is not configured: set ${missing.join(' and ')} in DATA_DIR/image-generation.json or the server environment`
+    : null;
+
+  const conversationUrl = (jobId: string, suffix = '') =>
+    `${baseUrl}/conversation/${encodeURIComponent(jobId)}${suffix}${authToken ? `?auth_token=${encodeURIComponent(authToken)}` : ''}`;
+
+  return {
+    name: 'oai-reverse',
+    pollIntervalMs: 30 * 1000,
+
+    async submit(prompt) {
+      if (configError) {
+        return { success: false, error: configError };
+      }
+      try {
+        const response = await fetch(`${baseUrl}/send-message`, {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ message: prompt }),
+        });
+
+        if (!response.ok) {
+          return { success: false, error: `AI service error: ${response.status} ${response.statusText}` };
+        }
+
+        const data = await response.json();
+        if (data.success && data.conversation_id) {
+          return { success: true, jobId: data.conversation_id };
+        }
+        return { success: false, error: 'Invalid response from AI service' };
+      } catch (error) {
+        console.error('Error submitting prompt to the AI service:', error);
+        return { success: false, error: `Network error: ${(error as Error).message}` };
+      }
+    },
+
+    async poll(jobId) {
+      if (configError) {
+        return { success: false, error: configError };
+      }
+      try {
+        const response = await fetch(conversationUrl(jobId, '/images'), { headers });
+
+        if (!response.ok) {
+          const errorText = await response.text().catch(() => '');
+          return { success: false, error: `Extract API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}` };
+        }
+
+        const data = await response.json();
+        const images: GeneratedImage[] = data.success && Array.isArray(data.images)
+          ? data.images.map(toGeneratedImage)
+          : [];
+        const completed = images.filter(image => image.downloadUrl).length;
+
+        return {
+          success: true,
+          status: {
+            images,
+            completed: data.images_completed ?? completed,
+            inProgress: data.images_in_progress ?? images.length - completed,
+          },
+        };
+      } catch (error) {
+        console.error(`Error polling conversation ${jobId}:`, error);
+        return { success: false, error: `Network error: ${(error as Error).message}` };
+      }
+    },
+
+    async fetchImage(downloadUrl) {
+      try {
+        const url = new URL(downloadUrl);
+        if (!['http:', 'https:'].includes(url.protocol)) {
+          return { success: false, error: 'Only HTTP and HTTPS URLs are allowed' };
+        }
+
+        const requestHeaders: Record<string, string> = {
+          'User-Agent': 'MDX-Editor/1.0 (Image Fetcher)',
+          Accept: 'image/*',
+        };
+
+        // chatgpt.com only serves generated images to the account that made them
+        if (url.hostname === 'chatgpt.com' || url.hostname.endsWith('.chatgpt.com')) {
+          if (!process.env.AUTH_TOKEN && envFile && await fs.pathExists(envFile)) {
+            dotenv.config({ path: envFile });
+          }
+          if (!process.env.AUTH_TOKEN) {
+            return { success: false, error: 'The AUTH_TOKEN environment variable is required for chatgpt.com URLs' };
+          }
+          requestHeaders.Authorization = `Bearer ${process.env.AUTH_TOKEN}`;
+        }
+
+        const response = await fetch(downloadUrl, { headers: requestHeaders });
+        if (!response.ok) {
+          return { success: false, error: `Failed to fetch image: ${response.status} ${response.statusText}` };
+        }
+
+        const contentType = response.headers.get('content-type');
+        if (!contentType || !contentType.startsWith('image/')) {
+          return { success: false, error: 'URL does not point to a valid image file' };
+        }
+
+        return { success: true, data: Buffer.from(await response.arrayBuffer()), contentType };
+      } catch (error) {
+        console.error('Error downloading generated image:', error);
+        return { success: false, error: `Failed to fetch image: ${(error as Error).message}` };
+      }
+    },
+
+    async cleanup(jobId) {
+      if (configError) {
+        return { success: false, error: configError };
+      }
+      try {
+        const response = await fetch(conversationUrl(jobId), { method: 'DELETE', headers });
+        if (!response.ok) {
+          return { success: false, error: `Failed to delete conversation: ${response.status} ${response.statusText}` };
+        }
+        return { success: true };
+      } catch (error) {
+        console.error(`Error deleting conversation ${jobId}:`, error);
+        return { success: false, error: `Network error: ${(error as Error).message}` };
+      }
+    },
+  };
+};
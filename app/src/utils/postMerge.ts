@@ -0,0 +1,121 @@
+import { diff3Merge } from 'node-diff3';
+import { BlogPost, BlogPostFrontmatter } from '@/types';
+
+// Which side wins a conflict; 'both' keeps my lines followed by theirs
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+// A run of merged content lines, or a conflict between my changes and theirs
+export type ContentMergeSegment =
+  | { type: 'ok'; lines: string[] }
+  | { type: 'conflict'; base: string[]; theirs: string[]; mine: string[] };
+
+export interface FrontmatterFieldMerge {
+  key: keyof BlogPostFrontmatter;
+  base: unknown;
+  theirs: unknown;
+  mine: unknown;
+  conflict: boolean; // Both sides changed the field differently
+  merged: unknown; // Automatically merged value (mine for conflicts until the user chooses)
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of post content by line
+ * Changes made on only one side are merged automatically; overlapping changes become conflicts
+ */
+export const mergeContent = (base: string, theirs: string, mine: string): ContentMergeSegment[] => {
+  const regions = diff3Merge(mine.split('\n'), base.split('\n'), theirs.split('\n'));
+
+  return regions.map(region => {
+    if (region.conflict) {
+      return {
+        type: 'conflict',
+        mine: region.conflict.a,
+        base: region.conflict.o,
+        theirs: region.conflict.b,
+      };
+    }
+    return { type: 'ok', lines: region.ok || [] };
+  });
+};
+
+/**
+ * Three-way merge of frontmatter field by field
+ */
+export const mergeFrontmatter = (
+  base: BlogPostFrontmatter,
+  theirs: BlogPostFrontmatter,
+  mine: BlogPostFrontmatter
+): FrontmatterFieldMerge[] => {
+  const keys = Array.from(new Set([...Object.keys(base), ...Object.keys(theirs), ...Object.keys(mine)])) as (keyof BlogPostFrontmatter)[];
+
+  return keys.map(key => {
+    const baseValue = base[key];
+    const theirValue = theirs[key];
+    const myValue = mine[key];
+
+    if (isSame(myValue, baseValue)) {
+      return { key, base: baseValue, theirs: theirValue, mine: myValue, conflict: false, merged: theirValue };
+    }
+    if (isSame(theirValue, baseValue) || isSame(theirValue, myValue)) {
+      return { key, base: baseValue, theirs: theirValue, mine: myValue, conflict: false, merged: myValue };
+    }
+    return { key, base: baseValue, theirs: theirValue, mine: myValue, conflict: true, merged: myValue };
+  });
+};
+
+/**
+ * Build the merged content from the merge segments and the user's choice for each conflict (by segment index)
+ */
+export const buildMergedContent = (
+  segments: ContentMergeSegment[],
+  choices: Record<number, ConflictChoice>
+): string => {
+  const lines: string[] = [];
+
+  segments.forEach((segment, index) => {
+    if (segment.type === 'ok') {
+      lines.push(...segment.lines);
+      return;
+    }
+
+    const choice = choices[index] || 'mine';
+    if (choice === 'mine' || choice === 'both') {
+      lines.push(...segment.mine);
+    }
+    if (choice === 'theirs' || choice === 'both') {
+      lines.push(...segment.theirs);
+    }
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Build the merged post from the merge results and the user's choices
+ */
+export const buildMergedPost = (
+  mine: BlogPost,
+  segments: ContentMergeSegment[],
+  contentChoices: Record<number, ConflictChoice>,
+  fields: FrontmatterFieldMerge[],
+  fieldChoices: Record<string, Exclude<ConflictChoice, 'both'>>
+): BlogPost => {
+  const frontmatter = { ...mine.frontmatter } as Record<string, unknown>;
+
+  fields.forEach(field => {
+    const value = field.conflict && fieldChoices[field.key] === 'theirs' ? field.theirs : field.merged;
+    if (value === undefined) {
+      delete frontmatter[field.key];
+    } else {
+      frontmatter[field.key] = value;
+    }
+  });
+
+  return {
+    ...mine,
+    frontmatter: frontmatter as unknown as BlogPostFrontmatter,
+    content: buildMergedContent(segments, contentChoices),
+  };
+};
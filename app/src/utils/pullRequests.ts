@@ -0,0 +1,75 @@
+import { PullRequestInfo } from '@/types';
+
+/**
+ * Optional hook that opens pull requests through a forge API
+ * Works with APIs shaped like GitHub's (POST /repos/{owner}/{repo}/pulls), which Gitea and Forgejo share
+ *
+ * Configured with environment variables:
+ * - PULL_REQUEST_API_URL: API base URL, e.g. https://api.github.com, https://git.example.com/api/v1,
+ *   or http://localhost:4010 for a local mock server
+ * - PULL_REQUEST_API_TOKEN: Token sent as a bearer token (optional for mock servers)
+ * - PULL_REQUEST_REPO: owner/name of the repository, when it can't be read from the origin URL
+ */
+
+export const isPullRequestHookEnabled = (): boolean => Boolean(process.env.PULL_REQUEST_API_URL);
+
+// Owner and name of a repository from its clone URL (git@host:owner/name.git, https://host/owner/name, ssh://...)
+export const parseRepoFullName = (remoteUrl: string): string | null => {
+  const match = remoteUrl.trim().match(/[:/]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? `${match[1]}/${match[2]}` : null;
+};
+
+export const openPullRequest = async (
+  remoteUrl: string | null,
+  request: { head: string; base: string; title: string; body?: string }
+): Promise<{ success: boolean; pullRequest?: PullRequestInfo; error?: string }> => {
+  const apiUrl = process.env.PULL_REQUEST_API_URL;
+  if (!apiUrl) {
+    return { success: false, error: 'Pull requests are not configured (set PULL_REQUEST_API_URL)' };
+  }
+
+  const fullName = process.env.PULL_REQUEST_REPO || (remoteUrl ? parseRepoFullName(remoteUrl) : null);
+  if (!fullName) {
+    return { success: false, error: 'Could not work out the repository from the origin URL (set PULL_REQUEST_REPO)' };
+  }
+
+  try {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+    if (process.env.PULL_REQUEST_API_TOKEN) {
+      headers.Authorization = `Bearer ${process.env.PULL_REQUEST_API_TOKEN}`;
+    }
+
+    const response = await fetch(`${apiUrl.replace(/\/+$/, '')}/repos/${fullName}/pulls`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        title: request.title,
+        head: request.head,
+        base: request.base,
+        body: request.body || '',
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      // GitHub and Gitea both explain failures in "message" (e.g. a pull request already exists)
+      const details = Array.isArray(data.errors)
+        ? data.errors.map((error: { message?: string }) => error.message).filter(Boolean).join('; ')
+        : '';
+      const message = [data.message, details].filter(Boolean).join(': ') || response.statusText;
+      return { success: false, error: `The forge refused the pull request (${response.status}): ${message}` };
+    }
+
+    return {
+      success: true,
+      pullRequest: { number: data.number, url: data.html_url || data.url },
+    };
+  } catch (error) {
+    console.error('Failed to open pull request:', error);
+    return { success: false, error: `Could not reach the forge API: ${(error as Error).message}` };
+  }
+};
@@ -0,0 +1,60 @@
+/**
+ * Slug utility functions shared by the API routes and the UI
+ * Slugs double as file names (posts/<slug>.mdx) and folder names (uploads/<slug>/)
+ */
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Convert a post title into a URL-friendly slug
+ * @param title - Post title (e.g., "My First Post!")
+ * @returns Slug in kebab-case (e.g., "my-first-post")
+ */
+export const slugify = (title: string): string => {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Validate that a slug only contains lowercase letters, numbers and single hyphens
+ * @param slug - Slug to validate
+ * @returns True if the slug is safe to use as a file and folder name
+ */
+export const isValidSlug = (slug: string): boolean => {
+  return SLUG_PATTERN.test(slug);
+};
+
+/**
+ * Check that the slug of an existing post is safe to use in a file path
+ * Older posts may have slugs that don't follow the rule for new ones (uppercase letters, underscores...),
+ * so routes working on an existing post only refuse slugs that could reach outside posts/ and uploads/
+ * @param slug - Slug of an existing post
+ * @returns True if the slug is a single path segment
+ */
+export const isSafeSlug = (slug: string): boolean => {
+  return slug.length > 0 && !/[/\\]/.test(slug) && !slug.startsWith('.') && !slug.includes('..');
+};
+
+/**
+ * Check whether a repository path belongs to a post: its MDX file or anything in its uploads folder
+ * @param filePath - Path relative to the repository root (e.g., "uploads/my-post/hero.jpg")
+ * @param slug - Post slug
+ * @returns True if the file is part of the post
+ */
+export const isPostFile = (filePath: string, slug: string): boolean => {
+  return filePath === `posts/${slug}.mdx` || filePath.startsWith(`uploads/${slug}/`);
+};
+
+/**
+ * Find the post a repository path belongs to
+ * @param filePath - Path relative to the repository root (e.g., "posts/my-post.mdx")
+ * @returns The post slug, or null for files outside posts/ and uploads/
+ */
+export const getPostSlugFromPath = (filePath: string): string | null => {
+  const match = filePath.match(/^posts\/([^/]+)\.mdx$/) || filePath.match(/^uploads\/([^/]+)\//);
+  return match ? match[1] : null;
+};